@@ -23,7 +23,7 @@ async function main() {
 
   // Initialize client
   const client = new StandXClient(auth);
-  await client.initialize(config.trading.symbol);
+  await client.initialize([config.trading.symbol]);
 
   // Get open orders
   const orders = await client.getOpenOrders(config.trading.symbol);
@@ -0,0 +1,39 @@
+import { getAccounts, getConfig } from '../src/config';
+import { StateStore } from '../src/bot/state-store';
+import { log } from '../src/utils/logger';
+
+/**
+ * Clear a circuit breaker halt saved in the state store, so the next start quotes again
+ * Usage: bun scripts/reset-breaker.ts [account name...] (default: all accounts)
+ * Run it while the bot is stopped; a running bot overwrites the file on its next save
+ */
+async function main() {
+  const config = getConfig();
+  const names = process.argv.slice(2);
+  const accounts = getAccounts().filter(account => names.length === 0 || names.includes(account.name));
+
+  const unknown = names.filter(name => !accounts.some(account => account.name === name));
+  if (unknown.length > 0) {
+    log.error(`Unknown account(s): ${unknown.join(', ')}`);
+    process.exit(1);
+  }
+
+  for (const account of accounts) {
+    const store = new StateStore(config.store.dir, account.name);
+    const state = store.load();
+
+    if (!state?.breakerHalted) {
+      log.info(`[${account.name}] Not halted, nothing to reset`);
+      continue;
+    }
+
+    // The fills that tripped the halt would trip it again right away
+    state.breakerHalted = false;
+    delete state.breakerHaltReason;
+    state.breakerFills = [];
+    store.save(state);
+    log.info(`✅ [${account.name}] Circuit breaker reset in ${store.getFile()}`);
+  }
+}
+
+main().catch(console.error);
@@ -27,7 +27,7 @@ async function main() {
 
   // Initialize client
   const client = new StandXClient(auth);
-  await client.initialize(config.trading.symbol);
+  await client.initialize([config.trading.symbol]);
 
   // Check current position
   log.info('\n📊 Checking current position...');
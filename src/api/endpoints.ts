@@ -0,0 +1,47 @@
+import { ApiConfig, ApiEndpoints, ApiProfile } from '../types';
+
+/**
+ * Built-in endpoint profiles
+ * - mainnet: production StandX
+ * - testnet: staging venue, no public URLs built in; set every API_*_URL override
+ * - local: a mock exchange on this machine serving all four endpoints on one port
+ */
+const PROFILES: Record<ApiProfile, ApiEndpoints> = {
+  mainnet: {
+    authUrl: 'https://api.standx.com',
+    restUrl: 'https://perps.standx.com',
+    marketStreamUrl: 'wss://perps.standx.com/ws-stream/v1',
+    orderStreamUrl: 'wss://perps.standx.com/ws-api/v1'
+  },
+  testnet: {
+    authUrl: '',
+    restUrl: '',
+    marketStreamUrl: '',
+    orderStreamUrl: ''
+  },
+  local: {
+    authUrl: 'http://localhost:8080',
+    restUrl: 'http://localhost:8080',
+    marketStreamUrl: 'ws://localhost:8080/ws-stream/v1',
+    orderStreamUrl: 'ws://localhost:8080/ws-api/v1'
+  }
+};
+
+/**
+ * Endpoints of the configured profile with any per-URL overrides applied
+ * Throws if one is left empty (no trailing slash, so paths can be appended)
+ */
+export function resolveEndpoints(api: ApiConfig): ApiEndpoints {
+  const profile = PROFILES[api.profile];
+  const endpoints = {} as ApiEndpoints;
+
+  for (const key of Object.keys(profile) as (keyof ApiEndpoints)[]) {
+    const url = (api.endpoints[key] || profile[key]).replace(/\/+$/, '');
+    if (!url) {
+      throw new Error(`API profile "${api.profile}" has no ${key}; set it with the matching API_*_URL variable`);
+    }
+    endpoints[key] = url;
+  }
+
+  return endpoints;
+}
@@ -0,0 +1,77 @@
+/**
+ * StandX API errors
+ * Every failed REST call surfaces as one of these, so callers can tell a failed request
+ * ("unknown") apart from an empty answer ("no position", "no orders")
+ */
+export abstract class StandXApiError extends Error {
+  // Safe to send the same request again (only used for idempotent calls)
+  abstract readonly retryable: boolean;
+
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * The request never got an HTTP response (DNS, connection reset, TLS, ...)
+ */
+export class NetworkError extends StandXApiError {
+  readonly retryable = true;
+}
+
+/**
+ * No response within the request timeout; the exchange may still have processed it
+ */
+export class TimeoutError extends StandXApiError {
+  readonly retryable = true;
+
+  constructor(readonly timeoutMs: number) {
+    super(`Request timed out after ${timeoutMs}ms`);
+  }
+}
+
+/**
+ * 401/403: the access token is missing, invalid or expired
+ */
+export class AuthExpiredError extends StandXApiError {
+  readonly retryable = false;
+
+  constructor(readonly status: number) {
+    super(`Not authorized (HTTP ${status}), access token expired or invalid`);
+  }
+}
+
+/**
+ * 429 from the exchange, still returned after the rate limiter's own retries
+ */
+export class RateLimitedError extends StandXApiError {
+  readonly retryable = true;
+
+  constructor(readonly retryAfterSec: number | null) {
+    super(`Rate limited (HTTP 429)${retryAfterSec !== null ? `, retry after ${retryAfterSec}s` : ''}`);
+  }
+}
+
+/**
+ * The exchange understood the request and refused it
+ */
+export class ExchangeRejectedError extends StandXApiError {
+  readonly retryable = false;
+
+  constructor(readonly code: number | string, message: string) {
+    super(`Rejected by exchange (code ${code}): ${message}`);
+  }
+}
+
+/**
+ * HTTP error status or a body that isn't what the endpoint returns; 5xx is worth a retry
+ */
+export class InvalidResponseError extends StandXApiError {
+  readonly retryable: boolean;
+
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.retryable = status >= 500;
+  }
+}
@@ -0,0 +1,128 @@
+import fs from 'fs';
+import path from 'path';
+import { base58 } from '@scure/base';
+import { ethers } from 'ethers';
+import { AccountConfig } from '../types';
+import { log } from '../utils/logger';
+
+// fd: sources can only be read once, so several accounts sharing one get the same value
+const fdPassphrases: Map<number, string> = new Map();
+
+/**
+ * Accounts with keystore-backed private keys decrypted (in memory only)
+ * Returns copies; the loaded config keeps no key for these accounts
+ */
+export async function unlockAccounts(accounts: AccountConfig[]): Promise<AccountConfig[]> {
+  const unlocked: AccountConfig[] = [];
+
+  for (const account of accounts) {
+    if (!account.keystore) {
+      unlocked.push(account);
+      continue;
+    }
+
+    const passphrase = await readPassphrase(account.keystorePassphrase || 'prompt', account.name);
+    const privateKey = await decryptKeystore(account.keystore, passphrase, account.chain);
+    log.info(`[${account.name}] Unlocked keystore ${account.keystore}`);
+    unlocked.push({ ...account, privateKey });
+  }
+
+  return unlocked;
+}
+
+/**
+ * Private key from an Ethereum JSON keystore (v3, scrypt or pbkdf2)
+ * For Solana accounts the encrypted 32 bytes are the ed25519 seed, returned base58 encoded
+ */
+async function decryptKeystore(file: string, passphrase: string, chain: AccountConfig['chain']): Promise<string> {
+  const resolved = path.resolve(process.cwd(), file);
+  const json = fs.readFileSync(resolved, 'utf-8');
+  if (!ethers.isKeystoreJson(json)) {
+    throw new Error(`${file} is not an Ethereum JSON keystore`);
+  }
+
+  try {
+    const account = await ethers.decryptKeystoreJson(json, passphrase);
+    return chain === 'solana'
+      ? base58.encode(ethers.getBytes(account.privateKey))
+      : account.privateKey;
+  } catch (error: any) {
+    throw new Error(`Failed to decrypt ${file}: ${error.shortMessage || error.message}`);
+  }
+}
+
+/**
+ * Passphrase from its source:
+ * - prompt: asked on the terminal, input hidden
+ * - env:NAME: the NAME environment variable
+ * - fd:N: everything readable from file descriptor N (e.g. 3<passphrase.txt), trailing newline dropped
+ * Errors don't echo the source: a passphrase put there by mistake would end up in the logs
+ */
+async function readPassphrase(source: string, accountName: string): Promise<string> {
+  if (source === 'prompt') {
+    return promptPassphrase(accountName);
+  }
+
+  if (source.startsWith('env:')) {
+    const name = source.slice(4);
+    const value = process.env[name];
+    if (!value) {
+      throw new Error(`[${accountName}] Keystore passphrase variable ${name} is not set`);
+    }
+    return value;
+  }
+
+  if (source.startsWith('fd:')) {
+    const fd = Number(source.slice(3));
+    if (!Number.isInteger(fd) || fd < 0) {
+      throw new Error(`[${accountName}] Invalid keystore passphrase source: fd:N needs a non-negative file descriptor number`);
+    }
+    if (!fdPassphrases.has(fd)) {
+      fdPassphrases.set(fd, fs.readFileSync(fd, 'utf-8').replace(/\r?\n$/, ''));
+    }
+    return fdPassphrases.get(fd)!;
+  }
+
+  throw new Error(`[${accountName}] Unknown keystore passphrase source, expected prompt, env:NAME or fd:N`);
+}
+
+/**
+ * Read a passphrase from the terminal without echoing it
+ */
+function promptPassphrase(accountName: string): Promise<string> {
+  const stdin = process.stdin;
+  if (!stdin.isTTY) {
+    return Promise.reject(new Error(`[${accountName}] No terminal to prompt for the keystore passphrase; use env:NAME or fd:N`));
+  }
+
+  return new Promise((resolve, reject) => {
+    let input = '';
+    const finish = () => {
+      stdin.removeListener('data', onData);
+      stdin.setRawMode(false);
+      stdin.pause();
+      process.stdout.write('\n');
+    };
+    const onData = (chunk: string) => {
+      for (const char of chunk) {
+        if (char === '\r' || char === '\n') {
+          finish();
+          resolve(input);
+          return;
+        }
+        if (char === '\u0003') {
+          finish();
+          reject(new Error(`[${accountName}] Passphrase prompt aborted`));
+          return;
+        }
+        input = char === '\u007f' || char === '\b' ? input.slice(0, -1) : input + char;
+      }
+    };
+
+    process.stdout.write(`Keystore passphrase for ${accountName}: `);
+    stdin.setRawMode(true);
+    stdin.setEncoding('utf-8');
+    stdin.resume();
+    stdin.on('data', onData);
+  });
+}
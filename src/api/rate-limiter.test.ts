@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'bun:test';
+import { RateLimiter } from './rate-limiter';
+import { RateLimitConfig, RequestPriority } from '../types';
+
+function createLimiter(perSec: number, burst: number, backoffSec: number = 0.2): RateLimiter {
+  const bucket = { perSec, burst };
+  const config: RateLimitConfig = { public: bucket, order: bucket, query: bucket, backoffSec, maxBackoffSec: 1 };
+  return new RateLimiter(config);
+}
+
+describe('RateLimiter', () => {
+  it('serves a burst right away and throttles the rest', async () => {
+    const limiter = createLimiter(20, 3);
+    const start = Date.now();
+
+    await Promise.all([1, 2, 3].map(() => limiter.acquire('order')));
+    expect(Date.now() - start).toBeLessThan(30);
+
+    await limiter.acquire('order');
+    expect(Date.now() - start).toBeGreaterThanOrEqual(40);
+
+    const stats = limiter.getStats().order;
+    expect(stats.requests).toBe(4);
+    expect(stats.throttled).toBe(1);
+    expect(stats.queued).toBe(0);
+  });
+
+  it('serves queued requests by priority', async () => {
+    const limiter = createLimiter(50, 1);
+    await limiter.acquire('order');
+
+    const served: RequestPriority[] = [];
+    const waiting = (['low', 'normal', 'urgent'] as RequestPriority[]).map(priority =>
+      limiter.acquire('order', priority).then(() => served.push(priority))
+    );
+    await Promise.all(waiting);
+
+    expect(served).toEqual(['urgent', 'normal', 'low']);
+  });
+
+  it('keeps endpoint classes apart', async () => {
+    const limiter = createLimiter(5, 1);
+    await limiter.acquire('order');
+
+    const start = Date.now();
+    await limiter.acquire('query');
+    expect(Date.now() - start).toBeLessThan(30);
+  });
+
+  it('pauses a class after a 429 and honors Retry-After', async () => {
+    const limiter = createLimiter(1000, 10);
+
+    limiter.onRateLimited('public', 0.15);
+    const start = Date.now();
+    await limiter.acquire('public');
+    expect(Date.now() - start).toBeGreaterThanOrEqual(140);
+    expect(limiter.getStats().public.rateLimited).toBe(1);
+  });
+
+  it('doubles the backoff on repeated 429s until a request succeeds', async () => {
+    const limiter = createLimiter(1000, 10, 0.05);
+
+    limiter.onRateLimited('query');
+    limiter.onRateLimited('query');
+    let start = Date.now();
+    await limiter.acquire('query');
+    // Second 429 within the first pause: 100ms from then, not 50ms
+    expect(Date.now() - start).toBeGreaterThanOrEqual(90);
+
+    limiter.onSuccess('query');
+    limiter.onRateLimited('query');
+    start = Date.now();
+    await limiter.acquire('query');
+    expect(Date.now() - start).toBeLessThan(90);
+  });
+});
@@ -0,0 +1,157 @@
+import { getConfig } from '../config';
+import { EndpointClass, EndpointStats, RateLimitBucketConfig, RateLimitConfig, RateLimiterStats, RequestPriority } from '../types';
+import { log } from '../utils/logger';
+
+// Lanes in the order they are served
+const PRIORITIES: RequestPriority[] = ['urgent', 'normal', 'low'];
+
+interface Waiter {
+  resolve: () => void;
+  queuedAt: number;
+}
+
+/**
+ * Token bucket for one endpoint class with priority lanes and 429 backoff
+ */
+class TokenBucket {
+  private name: EndpointClass;
+  private config: RateLimitBucketConfig;
+  private backoffBaseMs: number;
+  private backoffMaxMs: number;
+  private tokens: number;
+  private lastRefill: number = Date.now();
+  private lanes: Record<RequestPriority, Waiter[]> = { urgent: [], normal: [], low: [] };
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private blockedUntil: number = 0;
+  private backoffMs: number;
+  private stats = { requests: 0, throttled: 0, rateLimited: 0, waitMs: 0 };
+
+  constructor(name: EndpointClass, config: RateLimitBucketConfig, backoffBaseSec: number, backoffMaxSec: number) {
+    this.name = name;
+    this.config = config;
+    this.tokens = config.burst;
+    this.backoffBaseMs = backoffBaseSec * 1000;
+    this.backoffMaxMs = backoffMaxSec * 1000;
+    this.backoffMs = this.backoffBaseMs;
+  }
+
+  /**
+   * Resolves once the request may be sent; higher lanes are served first
+   */
+  acquire(priority: RequestPriority): Promise<void> {
+    this.stats.requests++;
+    return new Promise(resolve => {
+      this.lanes[priority].push({ resolve, queuedAt: Date.now() });
+      this.drain();
+    });
+  }
+
+  /**
+   * The exchange answered 429: pause the whole class, doubling the pause on repeats
+   */
+  onRateLimited(retryAfterSec: number | null): void {
+    this.stats.rateLimited++;
+    const pauseMs = retryAfterSec !== null ? retryAfterSec * 1000 : this.backoffMs;
+    this.blockedUntil = Math.max(this.blockedUntil, Date.now() + pauseMs);
+    this.backoffMs = Math.min(this.backoffMaxMs, this.backoffMs * 2);
+    this.tokens = 0;
+    log.warn(`[RateLimit] 429 on ${this.name} requests, pausing ${(pauseMs / 1000).toFixed(1)}s`);
+  }
+
+  /**
+   * A request went through: reset the backoff
+   */
+  onSuccess(): void {
+    this.backoffMs = this.backoffBaseMs;
+  }
+
+  getStats(): EndpointStats {
+    const queued = PRIORITIES.reduce((sum, p) => sum + this.lanes[p].length, 0);
+    return { ...this.stats, queued };
+  }
+
+  private refill(now: number): void {
+    const elapsedSec = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(this.config.burst, this.tokens + elapsedSec * this.config.perSec);
+    this.lastRefill = now;
+  }
+
+  private drain(): void {
+    if (this.timer) {
+      return;
+    }
+
+    const now = Date.now();
+    this.refill(now);
+
+    while (now >= this.blockedUntil && this.tokens >= 1) {
+      const lane = PRIORITIES.find(p => this.lanes[p].length > 0);
+      if (!lane) {
+        return;
+      }
+
+      const waiter = this.lanes[lane].shift()!;
+      this.tokens -= 1;
+      const waitMs = now - waiter.queuedAt;
+      if (waitMs > 0) {
+        this.stats.throttled++;
+        this.stats.waitMs += waitMs;
+      }
+      waiter.resolve();
+    }
+
+    if (PRIORITIES.every(p => this.lanes[p].length === 0)) {
+      return;
+    }
+
+    // Wake up when the next token is due (or the backoff ends)
+    const tokenMs = ((1 - this.tokens) / this.config.perSec) * 1000;
+    const delayMs = Math.max(this.blockedUntil - now, tokenMs, 1);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.drain();
+    }, delayMs);
+  }
+}
+
+/**
+ * Rate Limiter
+ * One token bucket per endpoint class, shared by every client in the process
+ * - public: market data (mark price, depth, symbol info)
+ * - order: order entry and cancels
+ * - query: private queries (orders, positions)
+ */
+export class RateLimiter {
+  private buckets: Record<EndpointClass, TokenBucket>;
+
+  constructor(config: RateLimitConfig) {
+    this.buckets = {
+      public: new TokenBucket('public', config.public, config.backoffSec, config.maxBackoffSec),
+      order: new TokenBucket('order', config.order, config.backoffSec, config.maxBackoffSec),
+      query: new TokenBucket('query', config.query, config.backoffSec, config.maxBackoffSec)
+    };
+  }
+
+  acquire(endpoint: EndpointClass, priority: RequestPriority = 'normal'): Promise<void> {
+    return this.buckets[endpoint].acquire(priority);
+  }
+
+  onRateLimited(endpoint: EndpointClass, retryAfterSec: number | null = null): void {
+    this.buckets[endpoint].onRateLimited(retryAfterSec);
+  }
+
+  onSuccess(endpoint: EndpointClass): void {
+    this.buckets[endpoint].onSuccess();
+  }
+
+  getStats(): RateLimiterStats {
+    return {
+      public: this.buckets.public.getStats(),
+      order: this.buckets.order.getStats(),
+      query: this.buckets.query.getStats()
+    };
+  }
+}
+
+// Export singleton instance (shared by all accounts)
+export const rateLimiter = new RateLimiter(getConfig().rateLimit);
@@ -1,6 +1,11 @@
 import { ed25519 } from '@noble/curves/ed25519';
 import { base58 } from '@scure/base';
-import { ethers } from 'ethers';
+import EventEmitter from 'eventemitter3';
+import { createWalletSigner, WalletSigner } from './wallet-signer';
+import { log } from '../utils/logger';
+
+// How often the auto-refresh timer checks whether the token is due
+const REFRESH_CHECK_MS = 60000;
 
 /**
  * HTTP fetch helper using Bun's native fetch
@@ -58,15 +63,26 @@ export interface RequestSignatureHeaders {
 /**
  * StandX Authentication Helper
  * Based on: https://docs.standx.com/standx-api/perps-auth#complete-authentication-class-example
+ * Tracks the access token's expiry and signs in again before it lapses (or when the API
+ * answers 401); emits 'token_refreshed' so streams can re-authenticate
  */
-export class StandXAuth {
+export class StandXAuth extends EventEmitter {
   private ed25519PrivateKey: Uint8Array;
   private ed25519PublicKey: Uint8Array;
   private requestId: string;
-  private baseUrl = 'https://api.standx.com';
+  private baseUrl: string;
   private accessToken: string | null = null;
+  private tokenTtlSec: number;
+  private tokenExpiresAt: number | null = null;
+  private signer: WalletSigner | null = null;
+  private refreshing: Promise<string> | null = null;
+  private refreshTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(baseUrl: string, tokenTtlSec: number = 604800) {
+    super();
+    this.baseUrl = baseUrl;
+    this.tokenTtlSec = tokenTtlSec;
 
-  constructor() {
     // Generate Ed25519 key pair (exact method from StandX docs)
     const privateKey = ed25519.utils.randomSecretKey();
     this.ed25519PrivateKey = privateKey;
@@ -91,17 +107,101 @@ export class StandXAuth {
 
   /**
    * Legacy login method for backward compatibility
-   * Sets up wallet internally and calls authenticate
+   * Sets up the chain's wallet signer internally and calls authenticate
    */
   async loginWithPrivateKey(privateKey: string, chain: Chain = 'bsc'): Promise<string> {
-    const wallet = new ethers.Wallet(privateKey);
-    const response = await this.authenticate(chain, wallet.address, async (message) =>
-      wallet.signMessage(message)
-    );
+    return this.loginWithSigner(createWalletSigner(privateKey, chain));
+  }
+
+  /**
+   * Sign in with a wallet signer; it is kept for token refreshes
+   */
+  async loginWithSigner(signer: WalletSigner): Promise<string> {
+    this.signer = signer;
+    return this.signIn();
+  }
+
+  /**
+   * Sign in again with the wallet used for the first login
+   * Concurrent callers (e.g. several requests hitting 401 at once) share one sign-in
+   */
+  refreshToken(): Promise<string> {
+    if (!this.signer) {
+      return Promise.reject(new Error('Not logged in. Call loginWithPrivateKey() first.'));
+    }
+    if (!this.refreshing) {
+      this.refreshing = this.signIn()
+        .then(token => {
+          log.info(`[Auth] Access token refreshed, expires ${new Date(this.tokenExpiresAt!).toISOString()}`);
+          this.emit('token_refreshed');
+          return token;
+        })
+        .finally(() => {
+          this.refreshing = null;
+        });
+    }
+    return this.refreshing;
+  }
+
+  /**
+   * Refresh the token once it is within marginSec of expiring
+   * A failed refresh is retried on the next check; the old token stays in use meanwhile
+   */
+  startAutoRefresh(marginSec: number): void {
+    this.stopAutoRefresh();
+    this.refreshTimer = setInterval(async () => {
+      if (this.tokenExpiresAt === null || Date.now() < this.tokenExpiresAt - marginSec * 1000) {
+        return;
+      }
+      try {
+        await this.refreshToken();
+      } catch (error: any) {
+        log.error(`[Auth] Token refresh failed, retrying in ${REFRESH_CHECK_MS / 1000}s: ${error.message}`);
+        this.emit('token_refresh_failed', error);
+      }
+    }, REFRESH_CHECK_MS);
+  }
+
+  stopAutoRefresh(): void {
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+  }
+
+  /**
+   * When the current access token expires (ms), or null before login
+   */
+  getTokenExpiresAt(): number | null {
+    return this.tokenExpiresAt;
+  }
+
+  /**
+   * Sign in with the stored wallet and track the new token's expiry
+   */
+  private async signIn(): Promise<string> {
+    const { chain, address, signMessage } = this.signer!;
+    const response = await this.authenticate(chain, address, signMessage);
     this.accessToken = response.token;
+    this.tokenExpiresAt = this.getExpiry(response.token);
     return response.token;
   }
 
+  /**
+   * Expiry from the token's exp claim; falls back to the requested lifetime if it can't be decoded
+   */
+  private getExpiry(token: string): number {
+    try {
+      const { exp } = this.parseJwt<{ exp?: number }>(token);
+      if (typeof exp === 'number') {
+        return exp * 1000;
+      }
+    } catch (error) {
+      // Not a JWT; use the lifetime we asked for
+    }
+    return Date.now() + this.tokenTtlSec * 1000;
+  }
+
   /**
    * Prepare sign-in - get signed data from server
    */
@@ -114,7 +214,7 @@ export class StandXAuth {
       body: JSON.stringify({ address, requestId: this.requestId })
     });
 
-    const data = await response.json();
+    const data: any = await response.json();
 
     if (!data.success) {
       throw new Error(`Prepare signin failed: ${JSON.stringify(data)}`);
@@ -129,7 +229,7 @@ export class StandXAuth {
     chain: Chain,
     signature: string,
     signedData: string,
-    expiresSeconds: number = 604800 // default: 7 days
+    expiresSeconds: number = this.tokenTtlSec // default: 7 days
   ): Promise<LoginResponse> {
     const url = `${this.baseUrl}/v1/offchain/login?chain=${chain}`;
 
@@ -143,7 +243,7 @@ export class StandXAuth {
       })
     });
 
-    const result = await response.json();
+    const result = await response.json() as LoginResponse;
 
     if (!result.token) {
       throw new Error('No token in login response');
@@ -1,10 +1,27 @@
 import { v4 as uuidv4 } from 'uuid';
 import Decimal from 'decimal.js';
 import { StandXAuth } from './standx-auth';
-import { OrderInfo, OrderResult, ContractInfo, OrderSide } from '../types';
+import { StandXWebSocket, ORDER_STREAM_METHODS } from './standx-websocket';
+import { rateLimiter } from './rate-limiter';
+import {
+  StandXApiError,
+  NetworkError,
+  TimeoutError,
+  AuthExpiredError,
+  RateLimitedError,
+  ExchangeRejectedError,
+  InvalidResponseError
+} from './errors';
+import { getConfig } from '../config';
+import { log } from '../utils/logger';
+import { OrderInfo, OrderResult, ContractInfo, OrderSide, EndpointClass, RequestPriority, ApiConfig, OrderTransport } from '../types';
+
+// Retries after a 429 before the request fails (the limiter pauses the endpoint class in between)
+const MAX_RATE_LIMIT_RETRIES = 2;
 
 /**
  * HTTP fetch helper using Bun's native fetch
+ * Transport failures are thrown as NetworkError / TimeoutError
  */
 async function fetchWithTimeout(
   url: string,
@@ -21,86 +38,119 @@ async function fetchWithTimeout(
       signal: controller.signal
     });
     return response;
+  } catch (error: any) {
+    if (controller.signal.aborted) {
+      throw new TimeoutError(timeout);
+    }
+    throw new NetworkError(error.message || 'Network request failed');
   } finally {
     clearTimeout(timeoutId);
   }
 }
 
+/**
+ * Retry-After header in seconds (only the delta-seconds form is used)
+ */
+function parseRetryAfter(value: string | null): number | null {
+  const seconds = value !== null ? Number(value) : NaN;
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds : null;
+}
+
+interface RequestOptions {
+  endpoint: EndpointClass;
+  priority: RequestPriority;
+  // Safe to resend after a timeout or network error (queries, cancels)
+  idempotent: boolean;
+}
+
 /**
  * StandX REST API Client
  * Handles all HTTP API calls to StandX using Bun's native fetch
+ * Failures are thrown as StandXApiError subclasses (see ./errors) instead of being
+ * turned into empty results
  */
 export class StandXClient {
   private auth: StandXAuth;
   private baseUrl: string;
   private sessionId: string;
-  private tickSize: Decimal = Decimal('0.1');
-  private contractId: string = '';
+  private contracts: Map<string, ContractInfo> = new Map();
+  private apiConfig: ApiConfig;
+  private orderStream: StandXWebSocket | null = null;
 
-  constructor(auth: StandXAuth) {
+  constructor(auth: StandXAuth, baseUrl: string) {
     this.auth = auth;
-    this.baseUrl = 'https://perps.standx.com';
+    this.baseUrl = baseUrl;
     this.sessionId = uuidv4();
+    this.apiConfig = getConfig().api;
   }
 
   /**
-   * Initialize client by fetching contract info
+   * WebSocket whose ws-api order stream carries orders when the transport is 'websocket'
    */
-  async initialize(symbol: string): Promise<void> {
-    const contractInfo = await this.getContractInfo(symbol);
-    this.contractId = contractInfo.symbol;
-    this.tickSize = contractInfo.tickSize;
+  setOrderStream(ws: StandXWebSocket): void {
+    this.orderStream = ws;
+  }
+
+  /**
+   * Initialize client by fetching contract info for every traded symbol
+   */
+  async initialize(symbols: string[]): Promise<void> {
+    for (const symbol of symbols) {
+      const contractInfo = await this.getContractInfo(symbol);
+      this.contracts.set(symbol, contractInfo);
+    }
   }
 
   /**
    * Get contract information
    */
   async getContractInfo(symbol: string): Promise<ContractInfo> {
-    try {
-      const url = new URL(`${this.baseUrl}/api/query_symbol_info`);
+    const url = new URL(`${this.baseUrl}/api/query_symbol_info`);
 
-      const response = await fetchWithTimeout(url.toString(), {
+    const data = await this.request(
+      { endpoint: 'public', priority: 'low', idempotent: true },
+      url.toString(),
+      () => ({
         method: 'GET',
         headers: {
           'Content-Type': 'application/json',
         }
-      });
+      })
+    );
 
-      const data = await response.json();
-
-      if (!Array.isArray(data)) {
-        throw new Error('Invalid symbol info response');
-      }
+    if (!Array.isArray(data)) {
+      throw new InvalidResponseError('Invalid symbol info response', 200);
+    }
 
-      const contract = data.find((c: any) =>
-        c.symbol === symbol ||
-        c.base_asset === symbol ||
-        c.symbol === `${symbol}-USD` ||
-        c.symbol === `${symbol}-PERP`
-      );
+    const contract = data.find((c: any) =>
+      c.symbol === symbol ||
+      c.base_asset === symbol ||
+      c.symbol === `${symbol}-USD` ||
+      c.symbol === `${symbol}-PERP`
+    );
 
-      if (!contract) {
-        throw new Error(`Contract not found for ${symbol}`);
-      }
+    if (!contract) {
+      throw new Error(`Contract not found for ${symbol}`);
+    }
 
-      const tickSize = contract.price_tick_decimals !== undefined
-        ? new Decimal(1).div(new Decimal(10).pow(contract.price_tick_decimals))
-        : new Decimal('0.1');
+    const tickSize = contract.price_tick_decimals !== undefined
+      ? new Decimal(1).div(new Decimal(10).pow(contract.price_tick_decimals))
+      : new Decimal('0.1');
 
-      return {
-        symbol: contract.symbol,
-        baseAsset: contract.base_asset,
-        tickSize: tickSize,
-        minOrderQty: new Decimal(contract.min_order_qty || '0.001'),
-        priceTickDecimals: contract.price_tick_decimals || 1
-      };
-    } catch (error: any) {
-      throw new Error(`Failed to get contract info: ${error.message}`);
-    }
+    return {
+      symbol: contract.symbol,
+      baseAsset: contract.base_asset,
+      tickSize: tickSize,
+      minOrderQty: new Decimal(contract.min_order_qty || '0.001'),
+      priceTickDecimals: contract.price_tick_decimals || 1
+    };
   }
 
   /**
    * Place a new order
+   * Not retried after a timeout or network error: the order may have been accepted.
+   * Over the order stream, falls back to REST when the socket is down or doesn't answer
+   * (after checking by client order ID that the order didn't go through)
    */
   async placeOrder(
     symbol: string,
@@ -108,11 +158,11 @@ export class StandXClient {
     qty: Decimal,
     price: Decimal,
     reduceOnly: boolean = false,
-    orderType: 'limit' | 'market' = 'limit'
+    orderType: 'limit' | 'market' = 'limit',
+    transport: OrderTransport = this.apiConfig.orderTransport
   ): Promise<OrderResult> {
     try {
       const clientOrderId = `bot-${uuidv4().replace(/-/g, '').substring(0, 16)}`;
-      const timestamp = Date.now();
 
       const params: any = {
         symbol,
@@ -130,21 +180,24 @@ export class StandXClient {
       }
 
       const payload = JSON.stringify(params);
-      const headers = this.buildHeaders(payload, timestamp);
-
-      const response = await fetchWithTimeout(`${this.baseUrl}/api/new_order`, {
-        method: 'POST',
-        headers,
-        body: payload
-      });
-
-      const result = await response.json();
-
-      if (result.code !== 0) {
-        return {
-          success: false,
-          errorMessage: result.message || 'Unknown error'
-        };
+      // Reduce-only orders close positions and go ahead of new quotes
+      const priority: RequestPriority = reduceOnly ? 'urgent' : 'normal';
+
+      const placed = transport === 'websocket' && await this.placeOrderOverStream(params, priority);
+      if (!placed) {
+        const result = await this.request(
+          { endpoint: 'order', priority, idempotent: false },
+          `${this.baseUrl}/api/new_order`,
+          () => ({
+            method: 'POST',
+            headers: this.buildHeaders(payload, Date.now()),
+            body: payload
+          })
+        );
+
+        if (result.code !== 0) {
+          throw new ExchangeRejectedError(result.code ?? 'unknown', result.message || 'Unknown error');
+        }
       }
 
       return {
@@ -158,162 +211,164 @@ export class StandXClient {
     } catch (error: any) {
       return {
         success: false,
-        errorMessage: error.message
+        errorMessage: error.message,
+        error: error instanceof StandXApiError ? error : undefined
       };
     }
   }
 
   /**
    * Cancel an order
+   * Resolves false when the exchange refuses the cancel (e.g. already filled or unknown);
+   * throws when the outcome is unknown. Over the order stream, falls back to REST on any
+   * transport failure (cancels are idempotent)
    */
-  async cancelOrder(orderId: string): Promise<boolean> {
-    try {
-      // If it's a client order ID, we need to find the real order ID first
-      if (orderId.startsWith('bot-')) {
-        const orderInfo = await this.getOrderInfo(orderId);
-        if (!orderInfo || orderInfo.orderId === 'None') {
-          return false;
-        }
-        orderId = orderInfo.orderId;
+  async cancelOrder(orderId: string, transport: OrderTransport = this.apiConfig.orderTransport): Promise<boolean> {
+    // If it's a client order ID, we need to find the real order ID first
+    if (orderId.startsWith('bot-')) {
+      const orderInfo = await this.getOrderInfo(orderId, 'urgent');
+      if (!orderInfo || orderInfo.orderId === 'None') {
+        return false;
       }
+      orderId = orderInfo.orderId;
+    }
 
-      const timestamp = Date.now();
-      const params = { order_id: parseInt(orderId) };
-      const payload = JSON.stringify(params);
-      const headers = this.buildHeaders(payload, timestamp);
+    const params = { order_id: parseInt(orderId) };
+    const payload = JSON.stringify(params);
 
-      const response = await fetchWithTimeout(`${this.baseUrl}/api/cancel_order`, {
-        method: 'POST',
-        headers,
-        body: payload
-      });
+    try {
+      if (transport === 'websocket' && this.orderStream?.isOrderEntryReady()) {
+        try {
+          await rateLimiter.acquire('order', 'urgent');
+          await this.orderStream.sendOrderRequest(ORDER_STREAM_METHODS.cancelOrder, params, this.apiConfig.wsOrderTimeoutMs);
+          return true;
+        } catch (error: any) {
+          if (error instanceof ExchangeRejectedError) {
+            throw error;
+          }
+          log.warn(`Cancel of ${orderId} over order stream failed (${error.message}), retrying over REST`);
+        }
+      }
 
-      const result = await response.json();
+      const result = await this.request(
+        { endpoint: 'order', priority: 'urgent', idempotent: true },
+        `${this.baseUrl}/api/cancel_order`,
+        () => ({
+          method: 'POST',
+          headers: this.buildHeaders(payload, Date.now()),
+          body: payload
+        })
+      );
       return result.message === 'success';
     } catch (error) {
-      return false;
+      if (error instanceof ExchangeRejectedError) {
+        return false;
+      }
+      throw error;
     }
   }
 
   /**
    * Get order information
+   * Resolves null when the exchange doesn't know the order; throws when the lookup failed
    */
-  async getOrderInfo(orderId: string): Promise<OrderInfo | null> {
-    try {
-      const timestamp = Date.now();
-      let params: any = {};
-
-      if (orderId.startsWith('bot-')) {
-        params.cl_ord_id = orderId;
-      } else {
-        params.order_id = parseInt(orderId);
-      }
+  async getOrderInfo(orderId: string, priority: RequestPriority = 'normal'): Promise<OrderInfo | null> {
+    let params: any = {};
 
-      const headers: Record<string, string> = {
-        'Authorization': `Bearer ${this.auth.getAccessToken()}`,
-        'x-session-id': this.sessionId
-      };
+    if (orderId.startsWith('bot-')) {
+      params.cl_ord_id = orderId;
+    } else {
+      params.order_id = parseInt(orderId);
+    }
 
-      const url = new URL(`${this.baseUrl}/api/query_order`);
-      Object.keys(params).forEach(key => url.searchParams.append(key, params[key]));
+    const url = new URL(`${this.baseUrl}/api/query_order`);
+    Object.keys(params).forEach(key => url.searchParams.append(key, params[key]));
 
-      const response = await fetchWithTimeout(url.toString(), {
+    let data: any;
+    try {
+      data = await this.request({ endpoint: 'query', priority, idempotent: true }, url.toString(), () => ({
         method: 'GET',
-        headers
-      });
-
-      const data = await response.json();
-
-      return {
-        orderId: data.id?.toString() || orderId,
-        clientOrderId: data.cl_ord_id || orderId,
-        symbol: data.symbol || this.contractId,
-        side: data.side || 'buy',
-        qty: new Decimal(data.qty || 0),
-        price: this.roundPrice(new Decimal(data.price || 0)),
-        filledQty: new Decimal(data.fill_qty || 0),
-        status: (data.status || 'OPEN').toUpperCase()
-      };
+        headers: this.buildAuthHeaders()
+      }));
     } catch (error) {
-      return null;
+      if (error instanceof ExchangeRejectedError) {
+        return null;
+      }
+      throw error;
     }
+
+    if (!data || typeof data !== 'object') {
+      throw new InvalidResponseError('Invalid order response', 200);
+    }
+
+    return {
+      orderId: data.id?.toString() || orderId,
+      clientOrderId: data.cl_ord_id || orderId,
+      symbol: data.symbol || '',
+      side: data.side || 'buy',
+      qty: new Decimal(data.qty || 0),
+      price: this.roundPrice(new Decimal(data.price || 0), data.symbol),
+      filledQty: new Decimal(data.fill_qty || 0),
+      status: (data.status || 'OPEN').toUpperCase()
+    };
   }
 
   /**
    * Get open orders
+   * Throws if the list can't be fetched; an empty array really means no open orders
    */
   async getOpenOrders(symbol: string): Promise<OrderInfo[]> {
-    try {
-      const headers: Record<string, string> = {
-        'Authorization': `Bearer ${this.auth.getAccessToken()}`,
-        'x-session-id': this.sessionId
-      };
-
-      const url = new URL(`${this.baseUrl}/api/query_open_orders`);
-      url.searchParams.append('symbol', symbol);
+    const url = new URL(`${this.baseUrl}/api/query_open_orders`);
+    url.searchParams.append('symbol', symbol);
 
-      const response = await fetchWithTimeout(url.toString(), {
-        method: 'GET',
-        headers
-      });
-
-      const data = await response.json();
-      const orders = data.result || data;
-
-      if (!Array.isArray(orders)) {
-        return [];
-      }
+    const data = await this.request({ endpoint: 'query', priority: 'normal', idempotent: true }, url.toString(), () => ({
+      method: 'GET',
+      headers: this.buildAuthHeaders()
+    }));
+    const orders = data?.result || data;
 
-      return orders.map((o: any) => ({
-        orderId: o.id?.toString() || o.order_id?.toString() || 'Unknown',
-        clientOrderId: o.cl_ord_id || '',
-        symbol: o.symbol || symbol,
-        side: o.side || 'buy',
-        qty: new Decimal(o.qty || 0),
-        price: new Decimal(o.price || 0),
-        filledQty: new Decimal(o.fill_qty || o.cum_qty || 0),
-        status: 'OPEN'
-      }));
-    } catch (error) {
-      return [];
+    if (!Array.isArray(orders)) {
+      throw new InvalidResponseError('Invalid open orders response', 200);
     }
+
+    return orders.map((o: any) => ({
+      orderId: o.id?.toString() || o.order_id?.toString() || 'Unknown',
+      clientOrderId: o.cl_ord_id || '',
+      symbol: o.symbol || symbol,
+      side: o.side || 'buy',
+      qty: new Decimal(o.qty || 0),
+      price: new Decimal(o.price || 0),
+      filledQty: new Decimal(o.fill_qty || o.cum_qty || 0),
+      status: 'OPEN'
+    }));
   }
 
   /**
    * Get current position
+   * Throws if the position can't be fetched; zero really means flat
    */
   async getPosition(symbol: string): Promise<Decimal> {
-    try {
-      const headers: Record<string, string> = {
-        'Authorization': `Bearer ${this.auth.getAccessToken()}`,
-        'x-session-id': this.sessionId
-      };
-
-      const url = new URL(`${this.baseUrl}/api/query_positions`);
-      url.searchParams.append('symbol', symbol);
-
-      const response = await fetchWithTimeout(url.toString(), {
-        method: 'GET',
-        headers
-      });
-
-      const positions = await response.json();
-      if (!Array.isArray(positions)) {
-        return Decimal(0);
-      }
+    const url = new URL(`${this.baseUrl}/api/query_positions`);
+    url.searchParams.append('symbol', symbol);
+
+    const positions = await this.request({ endpoint: 'query', priority: 'normal', idempotent: true }, url.toString(), () => ({
+      method: 'GET',
+      headers: this.buildAuthHeaders()
+    }));
+    if (!Array.isArray(positions)) {
+      throw new InvalidResponseError('Invalid positions response', 200);
+    }
 
-      for (const p of positions) {
-        const sym = p.symbol || p.contract_id || p.contractId;
-        if (sym === symbol || sym === this.contractId) {
-          const qty = p.qty || p.size || p.positionAmt || 0;
-          return new Decimal(qty.toString());
-        }
+    const contractId = this.contracts.get(symbol)?.symbol;
+    for (const p of positions) {
+      const sym = p.symbol || p.contract_id || p.contractId;
+      if (sym === symbol || sym === contractId) {
+        const qty = p.qty || p.size || p.positionAmt || 0;
+        return new Decimal(qty.toString());
       }
-
-      return Decimal(0);
-    } catch (error) {
-      return Decimal(0);
     }
+
+    return Decimal(0);
   }
 
   /**
@@ -322,67 +377,185 @@ export class StandXClient {
    * Use this to get fresh mark price when you need guaranteed current data
    */
   async getMarkPrice(symbol: string): Promise<Decimal> {
-    try {
-      const url = new URL(`${this.baseUrl}/api/query_symbol_price`);
-      url.searchParams.append('symbol', symbol);
+    const url = new URL(`${this.baseUrl}/api/query_symbol_price`);
+    url.searchParams.append('symbol', symbol);
 
-      const response = await fetchWithTimeout(url.toString(), {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-        }
-      });
+    const data = await this.request({ endpoint: 'public', priority: 'normal', idempotent: true }, url.toString(), () => ({
+      method: 'GET',
+      headers: {
+        'Content-Type': 'application/json',
+      }
+    }));
 
-      const data = await response.json();
-      return new Decimal(data.mark_price || 0);
-    } catch (error: any) {
-      throw new Error(`Failed to fetch mark price: ${error.message}`);
+    if (!data?.mark_price) {
+      throw new InvalidResponseError('Mark price missing from response', 200);
     }
+    return new Decimal(data.mark_price);
   }
 
   /**
    * Fetch BBO prices
    */
   async fetchBBOPrices(symbol: string): Promise<[Decimal, Decimal]> {
+    const url = new URL(`${this.baseUrl}/api/query_depth_book`);
+    url.searchParams.append('symbol', symbol);
+
+    const data = await this.request({ endpoint: 'public', priority: 'normal', idempotent: true }, url.toString(), () => ({
+      method: 'GET',
+      headers: {
+        'Content-Type': 'application/json',
+      }
+    }));
+    const { bids = [], asks = [] } = data ?? {};
+
+    let bestBid = Decimal(0);
+    let bestAsk = Decimal(0);
+
+    if (bids.length > 0) {
+      const sortedBids = bids.sort((a: any, b: any) => parseFloat(b[0]) - parseFloat(a[0]));
+      bestBid = new Decimal(sortedBids[0][0]);
+    }
+
+    if (asks.length > 0) {
+      const sortedAsks = asks.sort((a: any, b: any) => parseFloat(a[0]) - parseFloat(b[0]));
+      bestAsk = new Decimal(sortedAsks[0][0]);
+    }
+
+    return [bestBid, bestAsk];
+  }
+
+  /**
+   * Send a new order over the ws-api order stream
+   * Resolves false when the caller should send it over REST instead; throws if the exchange rejected it.
+   * An order still unknown after a timeout counts as placed
+   */
+  private async placeOrderOverStream(params: any, priority: RequestPriority): Promise<boolean> {
+    if (!this.orderStream?.isOrderEntryReady()) {
+      return false;
+    }
+
     try {
-      const url = new URL(`${this.baseUrl}/api/query_depth_book`);
-      url.searchParams.append('symbol', symbol);
+      await rateLimiter.acquire('order', priority);
+      await this.orderStream.sendOrderRequest(ORDER_STREAM_METHODS.newOrder, params, this.apiConfig.wsOrderTimeoutMs);
+      return true;
+    } catch (error: any) {
+      if (error instanceof ExchangeRejectedError) {
+        throw error;
+      }
 
-      const response = await fetchWithTimeout(url.toString(), {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
+      // No answer: the order may still have reached the exchange, so look for it before resending
+      if (error instanceof TimeoutError) {
+        let existing: OrderInfo | null;
+        try {
+          existing = await this.getOrderInfo(params.cl_ord_id, 'urgent');
+        } catch (lookupError: any) {
+          // Still unknown: resending could double the order, so keep it as placed. Its updates
+          // arrive on the order stream, and a cancel of an order that never got there finds nothing
+          log.warn(`Order ${params.cl_ord_id} over order stream timed out and lookup failed (${lookupError.message}), assuming it was placed`);
+          return true;
+        }
+        if (existing && existing.orderId !== params.cl_ord_id && existing.orderId !== 'None') {
+          return true;
         }
-      });
+      }
 
-      const { bids = [], asks = [] } = await response.json();
+      log.warn(`Order ${params.cl_ord_id} over order stream failed (${error.message}), sending over REST`);
+      return false;
+    }
+  }
 
-      let bestBid = Decimal(0);
-      let bestAsk = Decimal(0);
+  /**
+   * Send a request and parse the JSON body
+   * Idempotent calls are retried on retryable errors with exponential backoff and full jitter;
+   * others only after a 429, when the exchange is known not to have processed them.
+   * A 401/403 signs in again once and resends (the request was not processed either)
+   */
+  private async request(options: RequestOptions, url: string, buildOptions: () => RequestInit): Promise<any> {
+    const { retries, retryBaseMs, retryMaxMs } = this.apiConfig;
+    let reauthenticated = false;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.send(options, url, buildOptions);
+      } catch (error) {
+        if (error instanceof AuthExpiredError && !reauthenticated) {
+          reauthenticated = true;
+          log.warn(`${error.message}, signing in again`);
+          await this.auth.refreshToken();
+          continue;
+        }
+        if (!(error instanceof StandXApiError) || !error.retryable || !options.idempotent || attempt >= retries) {
+          throw error;
+        }
 
-      if (bids.length > 0) {
-        const sortedBids = bids.sort((a: any, b: any) => parseFloat(b[0]) - parseFloat(a[0]));
-        bestBid = new Decimal(sortedBids[0][0]);
+        const delayMs = Math.random() * Math.min(retryMaxMs, retryBaseMs * 2 ** attempt);
+        await new Promise(resolve => setTimeout(resolve, delayMs));
       }
+    }
+  }
 
-      if (asks.length > 0) {
-        const sortedAsks = asks.sort((a: any, b: any) => parseFloat(a[0]) - parseFloat(b[0]));
-        bestAsk = new Decimal(sortedAsks[0][0]);
+  /**
+   * One request through the shared rate limiter, with the response mapped to a typed error
+   * Options are built once a token is granted so signatures carry a fresh timestamp;
+   * a 429 pauses the whole endpoint class and the request is sent again
+   */
+  private async send(options: RequestOptions, url: string, buildOptions: () => RequestInit): Promise<any> {
+    const { endpoint, priority } = options;
+
+    for (let attempt = 0; ; attempt++) {
+      await rateLimiter.acquire(endpoint, priority);
+      const response = await fetchWithTimeout(url, { ...buildOptions(), timeout: this.apiConfig.timeoutMs });
+
+      if (response.status === 429) {
+        const retryAfterSec = parseRetryAfter(response.headers.get('retry-after'));
+        rateLimiter.onRateLimited(endpoint, retryAfterSec);
+        if (attempt >= MAX_RATE_LIMIT_RETRIES) {
+          throw new RateLimitedError(retryAfterSec);
+        }
+        continue;
       }
+      rateLimiter.onSuccess(endpoint);
 
-      return [bestBid, bestAsk];
-    } catch (error: any) {
-      throw new Error(`Failed to fetch BBO prices: ${error.message}`);
+      if (response.status === 401 || response.status === 403) {
+        throw new AuthExpiredError(response.status);
+      }
+
+      let body: any;
+      try {
+        body = await response.json();
+      } catch (error: any) {
+        throw new InvalidResponseError(`Unreadable response body (HTTP ${response.status})`, response.status);
+      }
+
+      if (!response.ok) {
+        if (response.status < 500 && body?.code !== undefined) {
+          throw new ExchangeRejectedError(body.code, body.message || `HTTP ${response.status}`);
+        }
+        throw new InvalidResponseError(`HTTP ${response.status}: ${body?.message || response.statusText}`, response.status);
+      }
+
+      return body;
     }
   }
 
   /**
    * Round price to tick size
    */
-  private roundPrice(price: Decimal): Decimal {
-    const ticks = price.div(this.tickSize);
+  private roundPrice(price: Decimal, symbol: string): Decimal {
+    const tickSize = this.getTickSize(symbol);
+    const ticks = price.div(tickSize);
     const rounded = ticks.toDecimalPlaces(0, Decimal.ROUND_HALF_UP);
-    return rounded.mul(this.tickSize);
+    return rounded.mul(tickSize);
+  }
+
+  /**
+   * Build headers for authenticated queries (read at send time, so a refreshed token is used)
+   */
+  private buildAuthHeaders(): Record<string, string> {
+    return {
+      'Authorization': `Bearer ${this.auth.getAccessToken()}`,
+      'x-session-id': this.sessionId
+    };
   }
 
   /**
@@ -402,16 +575,16 @@ export class StandXClient {
   }
 
   /**
-   * Get contract ID
+   * Get cached contract info for an initialized symbol
    */
-  getContractId(): string {
-    return this.contractId;
+  getContract(symbol: string): ContractInfo | undefined {
+    return this.contracts.get(symbol);
   }
 
   /**
-   * Get tick size
+   * Get tick size for a symbol (0.1 until the symbol is initialized)
    */
-  getTickSize(): Decimal {
-    return this.tickSize;
+  getTickSize(symbol: string): Decimal {
+    return this.contracts.get(symbol)?.tickSize ?? Decimal('0.1');
   }
 }
@@ -1,8 +1,30 @@
 import EventEmitter from 'eventemitter3';
+import { v4 as uuidv4 } from 'uuid';
 import { StandXAuth } from './standx-auth';
+import { ExchangeRejectedError, NetworkError, TimeoutError } from './errors';
 import { WSMarkPriceData, WSOrderData, WSPositionData } from '../types';
 import { wsLog } from '../utils/ws-logger';
 
+// Order stream login must be answered within this time, otherwise orders stay on REST
+const ORDER_LOGIN_TIMEOUT_MS = 10000;
+
+// ws-api request methods, as listed in the StandX Perps WebSocket API
+// (https://docs.standx.com/standx-api/perps-ws); order params are the REST new_order/cancel_order bodies
+export const ORDER_STREAM_METHODS = {
+  login: 'auth:login',
+  newOrder: 'order:new',
+  cancelOrder: 'order:cancel'
+} as const;
+
+export type OrderStreamMethod = typeof ORDER_STREAM_METHODS[keyof typeof ORDER_STREAM_METHODS];
+
+interface PendingRequest {
+  method: OrderStreamMethod;
+  resolve: (response: any) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
 /**
  * Bun WebSocket wrapper that provides ws-like interface
  */
@@ -10,7 +32,7 @@ class BunWebSocket {
   ws: WebSocket;
   readyState: number;
 
-  constructor(url: string, options?: { handshakeTimeout?: number }) {
+  constructor(url: string) {
     this.ws = new WebSocket(url);
     this.readyState = this.ws.readyState;
 
@@ -77,12 +99,16 @@ export class StandXWebSocket extends EventEmitter {
   private maxReconnectAttempts: number = 30;
   private reconnectDelay: number = 1000;
   private isManualClose: boolean = false;
+  // ws-api order entry: requests awaiting a response, by request_id
+  private sessionId: string = uuidv4();
+  private pendingRequests: Map<string, PendingRequest> = new Map();
+  private orderEntryReady: boolean = false;
 
-  constructor(auth: StandXAuth) {
+  constructor(auth: StandXAuth, marketUrl: string, orderUrl: string) {
     super();
     this.auth = auth;
-    this.marketUrl = 'wss://perps.standx.com/ws-stream/v1';
-    this.orderUrl = 'wss://perps.standx.com/ws-api/v1';
+    this.marketUrl = marketUrl;
+    this.orderUrl = orderUrl;
   }
 
   /**
@@ -151,6 +177,7 @@ export class StandXWebSocket extends EventEmitter {
 
         this.orderWS.on('open', () => {
           wsLog.info('Order Stream connected');
+          this.loginOrderStream();
           resolve();
         });
 
@@ -169,6 +196,7 @@ export class StandXWebSocket extends EventEmitter {
 
         this.orderWS.on('close', () => {
           wsLog.warn('Order Stream closed');
+          this.failPendingRequests('Order stream closed');
           if (!this.isManualClose) {
             this.scheduleReconnect('order');
           }
@@ -210,12 +238,98 @@ export class StandXWebSocket extends EventEmitter {
    * Handle Order Response Stream messages
    */
   private handleOrderMessage(message: any): void {
+    // Responses to our own requests are matched by request_id
+    const pending = message.request_id ? this.pendingRequests.get(message.request_id) : undefined;
+    if (pending) {
+      this.pendingRequests.delete(message.request_id);
+      clearTimeout(pending.timer);
+      if (message.code !== undefined && message.code !== 0) {
+        pending.reject(new ExchangeRejectedError(message.code, message.message || `${pending.method} failed`));
+      } else {
+        pending.resolve(message);
+      }
+    }
+
     // Handle order creation responses
     if (message.result) {
       this.emit('order_response', message.result);
     }
   }
 
+  /**
+   * Whether orders can be sent over the order stream (connected and logged in)
+   */
+  isOrderEntryReady(): boolean {
+    return this.orderEntryReady && this.orderWS?.readyState === BunWebSocket.OPEN;
+  }
+
+  /**
+   * Send a request over the ws-api order stream and wait for the response with the same request_id
+   * Order requests carry the same Ed25519 body signature as REST; rejects with ExchangeRejectedError
+   * when the exchange refuses, TimeoutError when no answer arrives and NetworkError when the socket drops
+   */
+  sendOrderRequest(method: OrderStreamMethod, params: object, timeoutMs: number, signed: boolean = true): Promise<any> {
+    const ws = this.orderWS;
+    if (!ws || ws.readyState !== BunWebSocket.OPEN) {
+      return Promise.reject(new NetworkError('Order stream not connected'));
+    }
+
+    const requestId = uuidv4();
+    const payload = JSON.stringify(params);
+    const message: Record<string, unknown> = {
+      session_id: this.sessionId,
+      request_id: requestId,
+      method,
+      params: payload
+    };
+    if (signed) {
+      message.header = this.auth.signRequest(payload, this.auth.getRequestId(), Date.now());
+    }
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pendingRequests.delete(requestId);
+        reject(new TimeoutError(timeoutMs));
+      }, timeoutMs);
+      this.pendingRequests.set(requestId, { method, resolve, reject, timer });
+
+      try {
+        ws.send(JSON.stringify(message));
+      } catch (error: any) {
+        clearTimeout(timer);
+        this.pendingRequests.delete(requestId);
+        reject(new NetworkError(error.message || 'Order stream send failed'));
+      }
+    });
+  }
+
+  /**
+   * Log the order stream in with the access token so it accepts orders
+   * A failed login only disables order entry over the socket; REST keeps working
+   */
+  private async loginOrderStream(): Promise<void> {
+    this.orderEntryReady = false;
+    try {
+      await this.sendOrderRequest(ORDER_STREAM_METHODS.login, { token: this.auth.getAccessToken() }, ORDER_LOGIN_TIMEOUT_MS, false);
+      this.orderEntryReady = true;
+      wsLog.info('Order Stream logged in, order entry available');
+    } catch (error: any) {
+      wsLog.warn(`Order Stream login failed, orders go over REST: ${error.message}`);
+    }
+  }
+
+  /**
+   * Reject every request still waiting for a response (the socket is gone)
+   */
+  private failPendingRequests(reason: string): void {
+    this.orderEntryReady = false;
+    for (const pending of this.pendingRequests.values()) {
+      clearTimeout(pending.timer);
+      pending.reject(new NetworkError(reason));
+    }
+    this.pendingRequests.clear();
+  }
+
   /**
    * Handle mark price updates
    */
@@ -250,7 +364,7 @@ export class StandXWebSocket extends EventEmitter {
     };
 
     // Only log important state changes, not every update
-    if (orderData.status === 'FILLED' || orderData.status === 'CANCELED') {
+    if (orderData.status === 'FILLED' || orderData.status === 'PARTIALLY_FILLED' || orderData.status === 'CANCELED') {
       wsLog.info(`Order ${orderData.clientOrderId}: ${orderData.status}`);
     }
 
@@ -275,16 +389,16 @@ export class StandXWebSocket extends EventEmitter {
    * Subscribe to mark price channel
    */
   subscribeMarkPrice(symbols: string[]): void {
-    const symbol = symbols[0];
-
-    this.marketWS?.send(JSON.stringify({
-      subscribe: {
-        channel: 'price',
-        symbol: symbol
-      }
-    }));
+    for (const symbol of symbols) {
+      this.marketWS?.send(JSON.stringify({
+        subscribe: {
+          channel: 'price',
+          symbol: symbol
+        }
+      }));
+    }
 
-    wsLog.info(`Subscribed to price channel for ${symbol}`);
+    wsLog.info(`Subscribed to price channel for ${symbols.join(', ')}`);
   }
 
   /**
@@ -319,6 +433,16 @@ export class StandXWebSocket extends EventEmitter {
     wsLog.info('Subscribed to order and position streams');
   }
 
+  /**
+   * Hand a refreshed access token to both streams without reconnecting
+   */
+  reauthenticate(): void {
+    this.subscribeUserStreams();
+    if (this.orderWS?.readyState === BunWebSocket.OPEN) {
+      this.loginOrderStream();
+    }
+  }
+
   /**
    * Schedule reconnection with exponential backoff
    */
@@ -368,6 +492,7 @@ export class StandXWebSocket extends EventEmitter {
       this.orderWS.close();
       this.orderWS = null;
     }
+    this.failPendingRequests('Disconnected');
 
     wsLog.info('Disconnected from all streams');
   }
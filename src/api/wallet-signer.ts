@@ -0,0 +1,172 @@
+import { ed25519 } from '@noble/curves/ed25519';
+import { base58 } from '@scure/base';
+import { ethers } from 'ethers';
+import type { Chain } from './standx-auth';
+import { AccountConfig } from '../types';
+
+/**
+ * Signs the StandX prepare-signin message for one wallet
+ * local: the key is in this process; external: a signing daemon holds it and the address is only claimed
+ */
+export interface WalletSigner {
+  kind: 'local' | 'external';
+  chain: Chain;
+  address: string;
+  signMessage: (msg: string) => Promise<string>;
+}
+
+/**
+ * Signer for an account: its external signer if configured, otherwise its private key
+ */
+export function createAccountSigner(account: AccountConfig, signerTimeoutMs: number): WalletSigner {
+  if (account.signer) {
+    return createExternalSigner(account.signer, account.chain, account.address, signerTimeoutMs);
+  }
+  return createWalletSigner(account.privateKey, account.chain);
+}
+
+/**
+ * Local signer for a private key in the chain's usual format
+ * - bsc: hex key (EIP-191 personal_sign via ethers)
+ * - solana: base58 secret key (64-byte keypair or 32-byte seed) or a solana-keygen JSON
+ *   byte array; ed25519 signature over the message, base58 encoded
+ */
+export function createWalletSigner(privateKey: string, chain: Chain): WalletSigner {
+  if (chain === 'solana') {
+    return createSolanaSigner(privateKey);
+  }
+  if (chain !== 'bsc') {
+    throw new Error(`Unsupported chain "${chain}", expected bsc or solana`);
+  }
+
+  const wallet = new ethers.Wallet(privateKey);
+  return {
+    kind: 'local',
+    chain,
+    address: wallet.address,
+    signMessage: async (message) => wallet.signMessage(message)
+  };
+}
+
+function createSolanaSigner(secretKey: string): WalletSigner {
+  const seed = parseSolanaSecretKey(secretKey);
+  const publicKey = ed25519.getPublicKey(seed);
+
+  return {
+    kind: 'local',
+    chain: 'solana',
+    address: base58.encode(publicKey),
+    signMessage: async (message) => base58.encode(ed25519.sign(Buffer.from(message, 'utf-8'), seed))
+  };
+}
+
+/**
+ * 32-byte ed25519 seed from a Solana secret key
+ * A 64-byte keypair is seed + public key; the public key half is checked against the seed
+ */
+function parseSolanaSecretKey(secretKey: string): Uint8Array {
+  const trimmed = secretKey.trim();
+  let bytes: Uint8Array;
+  try {
+    bytes = trimmed.startsWith('[')
+      ? Uint8Array.from(JSON.parse(trimmed) as number[])
+      : base58.decode(trimmed);
+  } catch (error) {
+    throw new Error('Invalid Solana private key: expected base58 or a JSON byte array');
+  }
+
+  if (bytes.length === 32) {
+    return bytes;
+  }
+  if (bytes.length !== 64) {
+    throw new Error(`Invalid Solana private key: ${bytes.length} bytes, expected 32 or 64`);
+  }
+
+  const seed = bytes.slice(0, 32);
+  const derived = ed25519.getPublicKey(seed);
+  if (!derived.every((byte, i) => byte === bytes[32 + i])) {
+    throw new Error('Invalid Solana private key: public key half does not match the secret');
+  }
+  return seed;
+}
+
+/**
+ * Whether two addresses are the same wallet (EVM hex is case-insensitive, base58 is not)
+ */
+export function isSameAddress(chain: Chain, a: string, b: string): boolean {
+  return chain === 'solana' ? a.trim() === b.trim() : a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+/**
+ * External signer: a local signing daemon over HTTP or a Unix socket, so this host never holds the key
+ * endpoint is a base URL (http://127.0.0.1:8799) or unix:/path/to/socket. The daemon answers
+ * POST /sign {"chain","address","message"} with {"signature"} in the same encoding as a local signer
+ * (EIP-191 hex for bsc, base58 ed25519 for solana)
+ */
+export function createExternalSigner(endpoint: string, chain: Chain, address: string, timeoutMs: number): WalletSigner {
+  if (chain !== 'bsc' && chain !== 'solana') {
+    throw new Error(`Unsupported chain "${chain}", expected bsc or solana`);
+  }
+
+  const unix = endpoint.startsWith('unix:') ? endpoint.slice(5) : undefined;
+  if (!unix && !/^https?:\/\//.test(endpoint)) {
+    throw new Error(`Invalid signer endpoint "${endpoint}", expected http(s)://host:port or unix:/path`);
+  }
+  const url = unix ? 'http://localhost/sign' : `${endpoint.replace(/\/+$/, '')}/sign`;
+
+  return {
+    kind: 'external',
+    chain,
+    address,
+    signMessage: async (message) => {
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ chain, address, message }),
+          signal: controller.signal,
+          unix
+        });
+      } catch (error: any) {
+        if (controller.signal.aborted) {
+          throw new Error(`External signer ${endpoint} did not answer within ${timeoutMs}ms`);
+        }
+        throw new Error(`External signer ${endpoint} unreachable: ${error.message}`);
+      } finally {
+        clearTimeout(timeoutId);
+      }
+
+      if (!response.ok) {
+        const text = await response.text().catch(() => '');
+        throw new Error(`External signer ${endpoint} refused to sign (HTTP ${response.status})${text ? `: ${text.slice(0, 200)}` : ''}`);
+      }
+
+      const data: any = await response.json().catch(() => null);
+      if (!data || typeof data.signature !== 'string') {
+        throw new Error(`External signer ${endpoint} returned no signature`);
+      }
+      return data.signature;
+    }
+  };
+}
+
+/**
+ * Address that produced a signature, to check an external signer really holds the claimed wallet
+ * EVM signatures are recovered; ed25519 ones can't be, so the claimed address is verified instead
+ * (null if the signature doesn't match it)
+ */
+export function getSigningAddress(chain: Chain, message: string, signature: string, claimedAddress: string): string | null {
+  try {
+    if (chain === 'solana') {
+      const valid = ed25519.verify(base58.decode(signature), Buffer.from(message, 'utf-8'), base58.decode(claimedAddress));
+      return valid ? claimedAddress : null;
+    }
+    return ethers.verifyMessage(message, signature);
+  } catch (error) {
+    return null;
+  }
+}
@@ -0,0 +1,137 @@
+import { BreakerFill, CircuitBreakerConfig, CircuitBreakerLevel, CircuitBreakerState, OrderSide } from '../types';
+
+/**
+ * Fill Circuit Breaker
+ * Counts fills and realized close losses in a sliding window and escalates:
+ * longer cooldown → wider distances → one-sided quoting → halt (latched until reset)
+ */
+export class FillCircuitBreaker {
+  private config: CircuitBreakerConfig;
+  private fills: BreakerFill[] = [];
+  private haltReason: string | null = null;
+
+  constructor(config: CircuitBreakerConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Apply reloaded thresholds; fills in the window are kept
+   */
+  setConfig(config: CircuitBreakerConfig): void {
+    this.config = config;
+  }
+
+  /**
+   * Record a fill and the estimated loss of closing it (0 if held or closed at a profit)
+   */
+  recordFill(side: OrderSide, lossUsd: number, time: number = Date.now()): void {
+    this.fills.push({ time, side, lossUsd: Math.max(0, lossUsd) });
+  }
+
+  /**
+   * Current breaker state; crossing a halt threshold latches the halt
+   */
+  getState(now: number = Date.now()): CircuitBreakerState {
+    const fills = this.getWindow(now);
+    const lossUsd = fills.reduce((sum, f) => sum + f.lossUsd, 0);
+    const level = this.getLevel(fills.length, lossUsd);
+    const widened = this.config.enabled && this.config.widenFills > 0 && fills.length >= this.config.widenFills;
+
+    return {
+      level,
+      fillsInWindow: fills.length,
+      lossInWindowUsd: lossUsd,
+      cooldownSec: this.getCooldownSec(fills.length),
+      extraDistanceBp: widened ? this.config.widenBp : 0,
+      blockedSides: level === 'one_sided' || level === 'halted' ? this.getHitSides(fills, level) : [],
+      haltReason: this.haltReason ?? undefined
+    };
+  }
+
+  isHalted(): boolean {
+    return this.haltReason !== null;
+  }
+
+  /**
+   * Fills in the window, for persisting across restarts
+   */
+  getFills(now: number = Date.now()): BreakerFill[] {
+    return this.getWindow(now).map(f => ({ ...f }));
+  }
+
+  /**
+   * Reload persisted fills
+   */
+  restoreFills(fills: BreakerFill[]): void {
+    this.fills = fills.map(f => ({ ...f })).sort((a, b) => a.time - b.time);
+  }
+
+  /**
+   * Latch a halt saved by the previous run; restarting does not clear it
+   */
+  restoreHalt(reason: string): void {
+    this.haltReason = reason;
+  }
+
+  /**
+   * Fills inside the window (older ones are dropped)
+   */
+  private getWindow(now: number): BreakerFill[] {
+    const cutoff = now - this.config.windowSec * 1000;
+    this.fills = this.fills.filter(f => f.time >= cutoff);
+    return this.fills;
+  }
+
+  private getLevel(fillCount: number, lossUsd: number): CircuitBreakerLevel {
+    if (!this.config.enabled) {
+      return 'normal';
+    }
+
+    if (this.haltReason === null) {
+      const { haltFills, haltLossUsd, windowSec } = this.config;
+      if (haltFills > 0 && fillCount >= haltFills) {
+        this.haltReason = `${fillCount} fills in ${windowSec}s`;
+      } else if (haltLossUsd > 0 && lossUsd >= haltLossUsd) {
+        this.haltReason = `$${lossUsd.toFixed(2)} close losses in ${windowSec}s`;
+      }
+    }
+
+    if (this.haltReason !== null) {
+      return 'halted';
+    }
+    if (this.config.oneSidedFills > 0 && fillCount >= this.config.oneSidedFills) {
+      return 'one_sided';
+    }
+    if (this.config.widenFills > 0 && fillCount >= this.config.widenFills) {
+      return 'widened';
+    }
+    return 'normal';
+  }
+
+  /**
+   * Base cooldown, multiplied for every fill already in the window
+   */
+  private getCooldownSec(fillCount: number): number {
+    if (!this.config.enabled || fillCount <= 1) {
+      return this.config.cooldownSec;
+    }
+    const cooldown = this.config.cooldownSec * Math.pow(this.config.cooldownMultiplier, fillCount - 1);
+    return Math.min(this.config.maxCooldownSec, cooldown);
+  }
+
+  /**
+   * Side being filled the most (latest fill breaks ties); halted blocks both
+   */
+  private getHitSides(fills: BreakerFill[], level: CircuitBreakerLevel): OrderSide[] {
+    if (level === 'halted') {
+      return ['buy', 'sell'];
+    }
+
+    const buys = fills.filter(f => f.side === 'buy').length;
+    const sells = fills.length - buys;
+    if (buys === sells) {
+      return fills.length > 0 ? [fills[fills.length - 1].side] : [];
+    }
+    return [buys > sells ? 'buy' : 'sell'];
+  }
+}
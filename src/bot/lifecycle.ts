@@ -0,0 +1,35 @@
+import { LifecyclePhase } from '../types';
+
+/**
+ * Allowed lifecycle transitions
+ * Concurrent paths race for a transition instead of checking flags: e.g. a position update and
+ * a fill both want UNWINDING, the second one is rejected because UNWINDING → UNWINDING is not listed
+ */
+const TRANSITIONS: Record<LifecyclePhase, LifecyclePhase[]> = {
+  STOPPED: ['STARTING'],
+  STARTING: ['QUOTING', 'PAUSED_SCHEDULE', 'STOPPING', 'HALTED'],
+  QUOTING: ['PAUSED_VOLATILITY', 'PAUSED_SCHEDULE', 'UNWINDING', 'STOPPING', 'HALTED'],
+  PAUSED_VOLATILITY: ['QUOTING', 'PAUSED_SCHEDULE', 'UNWINDING', 'STOPPING', 'HALTED'],
+  PAUSED_SCHEDULE: ['QUOTING', 'UNWINDING', 'STOPPING', 'HALTED'],
+  UNWINDING: ['COOLDOWN', 'QUOTING', 'PAUSED_SCHEDULE', 'STOPPING', 'HALTED'],
+  COOLDOWN: ['QUOTING', 'PAUSED_SCHEDULE', 'UNWINDING', 'STOPPING', 'HALTED'],
+  STOPPING: ['STOPPED'],
+  HALTED: ['STOPPING']
+};
+
+// Phases in which mark price ticks run the check loop (position safety check, schedule, requoting)
+export const CHECK_PHASES: LifecyclePhase[] = ['QUOTING', 'PAUSED_VOLATILITY', 'PAUSED_SCHEDULE'];
+// Phases in which the strategy may place orders
+export const QUOTE_PHASES: LifecyclePhase[] = ['QUOTING', 'PAUSED_VOLATILITY'];
+// Phases in which a new fill is closed right away (from COOLDOWN it re-enters UNWINDING); in
+// UNWINDING it waits for the running close, in any other phase the next position check picks it up
+export const FILL_PHASES: LifecyclePhase[] = ['QUOTING', 'PAUSED_VOLATILITY', 'PAUSED_SCHEDULE', 'COOLDOWN'];
+// Phases in which the bot counts as running
+export const RUNNING_PHASES: LifecyclePhase[] = ['QUOTING', 'PAUSED_VOLATILITY', 'PAUSED_SCHEDULE', 'UNWINDING', 'COOLDOWN', 'HALTED'];
+
+/**
+ * Whether a market may move from one phase to another
+ */
+export function canTransition(from: LifecyclePhase, to: LifecyclePhase): boolean {
+  return TRANSITIONS[from].includes(to);
+}
@@ -0,0 +1,455 @@
+import { afterAll, describe, expect, it } from 'bun:test';
+import Decimal from 'decimal.js';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { StandXAuth } from '../api/standx-auth';
+import { StandXClient } from '../api/standx-client';
+import { StandXWebSocket } from '../api/standx-websocket';
+import { getAccountTradingConfig } from '../config';
+import { createAccountLogger } from '../utils/logger';
+import { MakerPointsBot } from './maker-points-bot';
+import { StateStore } from './state-store';
+import { AccountConfig, CircuitBreakerConfig, MarketState, OrderInfo, OrderResult, OrderSide, OrderStatus, PartialFillPolicy, WSOrderData } from '../types';
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bot-test-'));
+
+const account: AccountConfig = {
+  name: 'fill-test',
+  privateKey: '',
+  address: '0x1',
+  chain: 'bsc',
+  trading: { symbols: ['BTC-USD'], levels: [{ distanceBp: 20, sizeBtc: 1 }] }
+};
+
+interface Close {
+  qty: string;
+  side: OrderSide;
+}
+
+/**
+ * A session that is already signed in
+ */
+class FakeAuth extends StandXAuth {
+  constructor() {
+    super('http://auth.test');
+  }
+
+  isAuthenticated(): boolean {
+    return true;
+  }
+
+  getTokenExpiresAt(): number | null {
+    return Date.now() + 3600 * 1000;
+  }
+
+  startAutoRefresh(): void {}
+}
+
+/**
+ * Streams without a socket: the test emits mark price, order and position updates itself
+ */
+class FakeWebSocket extends StandXWebSocket {
+  async connect(): Promise<void> {}
+
+  subscribeMarkPrice(): void {}
+
+  subscribeUserStreams(): void {}
+}
+
+/**
+ * Exchange that accepts every order; market orders (closes) fill at once, or once released when gated
+ */
+class FakeExchange extends StandXClient {
+  position = new Decimal(0);
+  quotes: OrderInfo[] = [];
+  closes: Close[] = [];
+  canceled: string[] = [];
+  gated = false;
+  unreachable = false;  // Order queries fail
+  private releases: (() => void)[] = [];
+  private nextId = 0;
+
+  async initialize(): Promise<void> {}
+
+  async placeOrder(
+    symbol: string,
+    side: OrderSide,
+    qty: Decimal,
+    price: Decimal,
+    _reduceOnly: boolean = false,
+    orderType: 'limit' | 'market' = 'limit'
+  ): Promise<OrderResult> {
+    const orderId = `bot-${++this.nextId}`;
+    if (orderType === 'limit') {
+      this.quotes.push({ orderId, clientOrderId: orderId, symbol, side, qty, price, filledQty: new Decimal(0), status: 'OPEN' });
+      return { success: true, orderId, price, size: qty, side, status: 'OPEN' };
+    }
+
+    this.closes.push({ qty: qty.toString(), side });
+    if (this.gated) {
+      await new Promise<void>(resolve => this.releases.push(resolve));
+    }
+    return { success: true, orderId, price: new Decimal(0), size: qty, side, status: 'FILLED' };
+  }
+
+  async cancelOrder(orderId: string): Promise<boolean> {
+    this.canceled.push(orderId);
+    return true;
+  }
+
+  async getOpenOrders(): Promise<OrderInfo[]> {
+    if (this.unreachable) {
+      throw new Error('Request timed out');
+    }
+    return [];
+  }
+
+  async getOrderInfo(): Promise<OrderInfo | null> {
+    return null;
+  }
+
+  async getPosition(): Promise<Decimal> {
+    return this.position;
+  }
+
+  async getMarkPrice(): Promise<Decimal> {
+    return new Decimal(100000);
+  }
+
+  /**
+   * Let the oldest gated close fill
+   */
+  release(): void {
+    this.releases.shift()?.();
+  }
+}
+
+interface HarnessOptions {
+  policy?: PartialFillPolicy;
+  gated?: boolean;
+  breaker?: Partial<CircuitBreakerConfig>;
+  store?: StateStore | null;
+}
+
+/**
+ * A bot quoting one BTC-USD level against the fake exchange
+ * Its updates go through the WebSocket events the bot subscribes to, like on a live connection
+ */
+function createHarness({ policy = 'cancel', gated = false, breaker = {}, store = null }: HarnessOptions = {}) {
+  const auth = new FakeAuth();
+  const exchange = new FakeExchange(auth, 'http://rest.test');
+  const ws = new FakeWebSocket(auth, 'ws://market.test', 'ws://order.test');
+  exchange.gated = gated;
+
+  const logger = createAccountLogger(account);
+  logger.silent = true;
+
+  const trading = getAccountTradingConfig(account);
+  const bot = new MakerPointsBot(account, {
+    auth,
+    client: exchange,
+    ws,
+    store,
+    logger,
+    trading: {
+      ...trading,
+      partialFillPolicy: policy,
+      circuitBreaker: { ...trading.circuitBreaker, cooldownSec: 0, ...breaker }
+    }
+  });
+
+  // Each update is done once the bot reports it handled
+  let updatesSent = 0;
+  let updatesDone = 0;
+  bot.on('order_updated', () => { updatesDone++; });
+
+  const market = (): MarketState => bot.getState().markets['BTC-USD'];
+  const quoted = (side: OrderSide): string => market()[side === 'buy' ? 'buyOrders' : 'sellOrders'][0]!.orderId;
+
+  // Let queued microtasks (updates, the close after a release) run
+  const settle = () => new Promise(resolve => setTimeout(resolve, 10));
+
+  const waitFor = async (condition: () => boolean): Promise<void> => {
+    const deadline = Date.now() + 2000;
+    while (!condition()) {
+      if (Date.now() > deadline) {
+        throw new Error('Timed out waiting for the bot');
+      }
+      await settle();
+    }
+  };
+
+  const tick = async () => {
+    ws.emit('mark_price', { symbol: 'BTC-USD', markPrice: '100000', timestamp: Date.now() });
+    await settle();
+  };
+
+  const start = async () => {
+    const started = bot.start();
+    await settle();
+    await tick();
+    await started;
+  };
+
+  const update = (status: OrderStatus, fillQty: string, orderId: string = quoted('buy')): Promise<void> => {
+    const data: WSOrderData = {
+      orderId: 1,
+      clientOrderId: orderId,
+      symbol: 'BTC-USD',
+      status,
+      side: 'buy',
+      qty: '1',
+      price: '99800',
+      fillQty,
+      avgFillPrice: '99800'
+    };
+    const sent = ++updatesSent;
+    ws.emit('order_update', data);
+    return waitFor(() => updatesDone >= sent);
+  };
+
+  const release = async () => {
+    exchange.release();
+    await settle();
+  };
+
+  return { bot, exchange, ws, market, quoted, start, tick, update, release, settle, waitFor };
+}
+
+afterAll(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('MakerPointsBot fill handling', () => {
+  it('closes each new part of sequential partial fills', async () => {
+    const { bot, exchange, market, quoted, start, update } = createHarness({ policy: 'cancel' });
+    await start();
+    const buy = quoted('buy');
+
+    await update('PARTIALLY_FILLED', '0.3', buy);
+    await update('PARTIALLY_FILLED', '0.6', buy);
+    await update('FILLED', '1', buy);
+
+    expect(exchange.closes).toEqual([{ qty: '0.3', side: 'sell' }, { qty: '0.3', side: 'sell' }, { qty: '0.4', side: 'sell' }]);
+    expect(exchange.canceled).toContain(buy);
+    expect(market().buyOrders[0]?.orderId).not.toBe(buy);
+    expect(market().phase).toBe('QUOTING');
+    expect(bot.getState().stats.ordersFilled).toBe(1);
+    expect(bot.getState().stats.partialFills).toBe(2);
+  });
+
+  it('keeps the remainder resting with the keep policy', async () => {
+    const { bot, exchange, market, quoted, start, tick, update } = createHarness({ policy: 'keep' });
+    await start();
+    const buy = quoted('buy');
+
+    await update('PARTIALLY_FILLED', '0.3', buy);
+    expect(market().buyOrders[0]?.orderId).toBe(buy);
+    expect(market().phase).toBe('QUOTING');
+
+    // The next check confirms the position over REST
+    const queries = bot.getState().stats.positionQueries;
+    await tick();
+    expect(bot.getState().stats.positionQueries).toBe(queries + 1);
+
+    await update('PARTIALLY_FILLED', '0.6', buy);
+    await update('FILLED', '1', buy);
+
+    expect(exchange.closes.map(close => close.qty)).toEqual(['0.3', '0.3', '0.4']);
+    expect(exchange.canceled).not.toContain(buy);
+    expect(market().buyOrders[0]?.orderId).not.toBe(buy);
+  });
+
+  it('closes fill updates that arrive during a close once it ends', async () => {
+    const { bot, exchange, market, quoted, start, update, release, settle } = createHarness({ policy: 'cancel', gated: true });
+    await start();
+    const buy = quoted('buy');
+
+    const updates = [update('PARTIALLY_FILLED', '0.3', buy)];
+    await settle();
+    expect(market().phase).toBe('UNWINDING');
+
+    updates.push(update('PARTIALLY_FILLED', '0.6', buy), update('FILLED', '1', buy));
+    await settle();
+    expect(exchange.closes.map(close => close.qty)).toEqual(['0.3']);
+
+    await release();
+    await release();
+    await Promise.all(updates);
+
+    expect(exchange.closes.map(close => close.qty)).toEqual(['0.3', '0.7']);
+    expect(bot.getState().stats.ordersFilled).toBe(1);
+    expect(market().position.isZero()).toBe(true);
+    expect(market().phase).toBe('QUOTING');
+  });
+
+  it('closes a fill of another order that arrives during a close', async () => {
+    const { exchange, market, start, update, release, settle } = createHarness({ policy: 'cancel', gated: true });
+    await start();
+
+    const updates = [update('FILLED', '1')];
+    await settle();
+    updates.push(update('FILLED', '1', 'bot-other'));
+    await settle();
+
+    await release();
+    await release();
+    await Promise.all(updates);
+
+    expect(exchange.closes.map(close => close.qty)).toEqual(['1', '1']);
+    expect(market().phase).toBe('QUOTING');
+  });
+
+  it('takes only the closed size off the tracked position', async () => {
+    const { bot, ws, market, start, update, release, settle } = createHarness({ gated: true, breaker: { cooldownSec: 0.1 } });
+    await start();
+
+    const filled = update('FILLED', '1');
+    await settle();
+
+    // The exchange reports more than the fill while it is being closed
+    ws.emit('position_update', { symbol: 'BTC-USD', positionAmt: '1.2' });
+    await release();
+
+    expect(market().phase).toBe('COOLDOWN');
+    expect(market().position.toString()).toBe('0.2');
+
+    // The rest is confirmed over REST before quoting again
+    const queries = bot.getState().stats.positionQueries;
+    await filled;
+    expect(bot.getState().stats.positionQueries).toBe(queries + 1);
+    expect(market().position.isZero()).toBe(true);
+    expect(market().phase).toBe('QUOTING');
+  });
+
+  it('leaves a fill that arrives while starting to the startup position check', async () => {
+    const { bot, exchange, ws, market, settle } = createHarness();
+
+    const started = bot.start();
+    await settle();
+    ws.emit('order_update', {
+      orderId: 1,
+      clientOrderId: 'bot-previous-run',
+      symbol: 'BTC-USD',
+      status: 'FILLED',
+      side: 'buy',
+      qty: '1',
+      price: '99800',
+      fillQty: '1',
+      avgFillPrice: '99800'
+    });
+    exchange.position = new Decimal(1);
+    await settle();
+    expect(exchange.closes).toEqual([]);
+
+    ws.emit('mark_price', { symbol: 'BTC-USD', markPrice: '100000', timestamp: Date.now() });
+    await started;
+
+    expect(exchange.closes).toEqual([{ qty: '1', side: 'sell' }]);
+    expect(bot.getState().stats.ordersFilled).toBe(0);
+    expect(market().phase).toBe('QUOTING');
+  });
+
+  it('closes a fill during the cooldown and restarts the cooldown', async () => {
+    const { exchange, market, quoted, start, update, settle } = createHarness({ policy: 'cancel', breaker: { cooldownSec: 0.2 } });
+    await start();
+    const quotes = exchange.quotes.length;
+
+    const first = update('FILLED', '1', quoted('buy'));
+    await settle();
+    expect(market().phase).toBe('COOLDOWN');
+
+    await new Promise(resolve => setTimeout(resolve, 100));
+    const second = update('FILLED', '1', 'bot-other');
+    await settle();
+    expect(exchange.closes.map(close => close.qty)).toEqual(['1', '1']);
+    expect(market().phase).toBe('COOLDOWN');
+
+    // The first cooldown ends inside the second one and must not requote
+    await first;
+    expect(market().phase).toBe('COOLDOWN');
+    expect(exchange.quotes.length).toBe(quotes);
+
+    await second;
+    expect(market().phase).toBe('QUOTING');
+    expect(exchange.quotes.length).toBe(quotes + 1);
+  });
+});
+
+describe('MakerPointsBot circuit breaker', () => {
+  it('keeps closing positions found over REST while halted', async () => {
+    const { exchange, market, start, tick, update } = createHarness({ breaker: { enabled: true, haltFills: 1 } });
+    await start();
+
+    await update('FILLED', '1');
+    expect(market().phase).toBe('HALTED');
+    expect(exchange.closes).toEqual([{ qty: '1', side: 'sell' }]);
+
+    // A fill skipped while halted shows up in the next position check
+    exchange.position = new Decimal(1);
+    await update('FILLED', '1', 'bot-other');
+    expect(exchange.closes.length).toBe(1);
+
+    await tick();
+    expect(exchange.closes).toEqual([{ qty: '1', side: 'sell' }, { qty: '1', side: 'sell' }]);
+    expect(market().phase).toBe('HALTED');
+  });
+});
+
+describe('MakerPointsBot open orders', () => {
+  it('keeps its orders when they cannot be listed after a reconnect', async () => {
+    const { exchange, ws, market, quoted, start, settle } = createHarness();
+    await start();
+    const buy = quoted('buy');
+    const quotes = exchange.quotes.length;
+
+    exchange.unreachable = true;
+    ws.emit('market_reconnected');
+    await settle();
+
+    expect(market().buyOrders[0]?.orderId).toBe(buy);
+    expect(exchange.quotes.length).toBe(quotes);
+  });
+
+  it('keeps tracking its orders when a halt cannot cancel them', async () => {
+    const { exchange, market, quoted, start, update } = createHarness({ breaker: { enabled: true, haltFills: 1 } });
+    await start();
+    const sell = quoted('sell');
+
+    exchange.unreachable = true;
+    await update('FILLED', '1');
+
+    expect(market().phase).toBe('HALTED');
+    expect(market().sellOrders[0]?.orderId).toBe(sell);
+  });
+});
+
+describe('MakerPointsBot state store', () => {
+  it('keeps a circuit breaker halt across restarts', async () => {
+    const store = new StateStore(dir, 'halted');
+    const breaker = { enabled: true, haltFills: 2 };
+
+    const halted = createHarness({ store, breaker });
+    await halted.start();
+    await halted.update('FILLED', '1');
+    await halted.waitFor(() => halted.market().phase === 'QUOTING');
+    await halted.update('FILLED', '1');
+    expect(halted.market().phase).toBe('HALTED');
+
+    const saved = store.load()!;
+    expect(saved.breakerHalted).toBe(true);
+    expect(saved.breakerHaltReason).toBe('2 fills in 600s');
+    expect(saved.markets['BTC-USD']).not.toHaveProperty('phase');
+    await halted.bot.stop();
+
+    // Restart: the halt is restored and applied once the start checks are done
+    const restarted = createHarness({ store, breaker });
+    await restarted.start();
+
+    expect(restarted.market().phase).toBe('HALTED');
+    expect(restarted.bot.getState().circuitBreaker.haltReason).toBe('2 fills in 600s');
+    expect(restarted.exchange.quotes).toEqual([]);
+    await restarted.bot.stop();
+  });
+});
@@ -3,11 +3,57 @@ import { EventEmitter } from 'eventemitter3';
 import { StandXAuth } from '../api/standx-auth';
 import { StandXClient } from '../api/standx-client';
 import { StandXWebSocket } from '../api/standx-websocket';
+import { resolveEndpoints } from '../api/endpoints';
+import { createAccountSigner, getSigningAddress, isSameAddress, WalletSigner } from '../api/wallet-signer';
 import { OrderManager } from './order-manager';
+import { createQuotingStrategy } from './quoting-strategy';
+import { VolatilityTracker } from './volatility-tracker';
+import { PointsEstimator } from './points-estimator';
+import { FillCircuitBreaker } from './circuit-breaker';
+import { TradingSchedule } from './trading-schedule';
+import { StateStore, STATE_VERSION } from './state-store';
+import { canTransition, CHECK_PHASES, FILL_PHASES, QUOTE_PHASES, RUNNING_PHASES } from './lifecycle';
 import { telegram } from '../notify/telegram';
-import { log, createAccountLogger } from '../utils/logger';
-import { getConfig } from '../config';
-import { BotState, BotStats, TradingMode, OrderSide, WSMarkPriceData, WSOrderData, AccountConfig } from '../types';
+import { createAccountLogger } from '../utils/logger';
+import { getConfig, getAccountTradingConfig, getMarketConfigs, getQuoteLevels, diffConfig, ConfigChange } from '../config';
+import { BotState, OrderSide, OrderInfo, QuoteLevel, MarketConfig, MarketState, MarketSnapshot, DesiredQuote, UnwindQuote, QuotingStrategy, TradingConfig, CircuitBreakerLevel, LifecyclePhase, PersistedBotState, PersistedMarketState, WSMarkPriceData, WSOrderData, AccountConfig, PreflightResult } from '../types';
+
+/**
+ * Per-symbol quoting context
+ * Everything that is specific to one market lives here; auth, REST client and WebSocket are shared
+ */
+interface MarketContext {
+  symbol: string;
+  config: MarketConfig;
+  levels: QuoteLevel[];
+  orderManager: OrderManager;
+  strategy: QuotingStrategy;
+  volatility: VolatilityTracker;
+  state: MarketState;
+  lastPrice: Decimal | null;   // Latest trade price from WS
+  spreadBid: Decimal | null;   // Best bid from WS
+  spreadAsk: Decimal | null;   // Best ask from WS
+  handledFills: Map<string, Decimal>;  // Cumulative fill qty already handled per partially filled order
+  pendingFills: Map<string, WSOrderData>;  // Latest fill update per order that arrived during a close
+  positionCheckedAt: number;  // Last REST position reconciliation (0 = due now)
+  cooldownUntil: number | null;  // End of the current post-fill cooldown
+  restored: PersistedMarketState | null;  // Saved state from the previous run, used during start
+  isSyncingQuotes: boolean;   // Serializes strategy runs so overlapping ticks don't double-place
+  isClosing: boolean;         // A fill or position close is running (guards closes while HALTED, which has no UNWINDING)
+}
+
+/**
+ * What a bot runs against; each one is built from the config unless given
+ * (tests hand in a simulated exchange, a quiet logger or trading settings of their own)
+ */
+export interface BotDependencies {
+  auth: StandXAuth;
+  client: StandXClient;
+  ws: StandXWebSocket;
+  store: StateStore | null;
+  logger: ReturnType<typeof createAccountLogger>;
+  trading: TradingConfig;  // Global trading config with the account's overrides applied
+}
 
 /**
  * StandX Maker Points Bot
@@ -17,53 +63,103 @@ export class MakerPointsBot extends EventEmitter {
   private auth: StandXAuth;
   private client: StandXClient;
   private ws: StandXWebSocket;
-  private orderManager: OrderManager;
   private config = getConfig();
   private account: AccountConfig;
+  private trading: TradingConfig;  // Global trading config with this account's overrides
   private logger: ReturnType<typeof createAccountLogger>;
   private accountId: string;
 
   // Bot state
   private state: BotState;
-  private markPrice: Decimal = Decimal(0);
-  private lastPrice: Decimal | null = null;   // Latest trade price from WS
-  private spreadBid: Decimal | null = null;   // Best bid from WS
-  private spreadAsk: Decimal | null = null;   // Best ask from WS
-  private stopRequested: boolean = false;
+  private markets: Map<string, MarketContext> = new Map();
+  private points: PointsEstimator;
+  private breaker: FillCircuitBreaker;
+  private breakerLevel: CircuitBreakerLevel = 'normal';
+  private schedule: TradingSchedule;
+  private isPausedBySchedule: boolean = false;  // Outside trading windows or inside a blackout
+  private store: StateStore | null;
+  private saveTimer: ReturnType<typeof setInterval> | null = null;
   private startTime: number;
-  private isProcessingFill: boolean = false;  // Flag to prevent race conditions during fill processing
-  private isPausedDueToVolatility: boolean = false;  // Paused due to high last-mark gap
 
-  constructor(account: AccountConfig) {
+  constructor(account: AccountConfig, deps: Partial<BotDependencies> = {}) {
     super();
 
     this.account = account;
     this.accountId = account.name;
-    this.logger = createAccountLogger(account);
+    this.trading = deps.trading ?? getAccountTradingConfig(account);
+    this.logger = deps.logger ?? createAccountLogger(account);
 
-    // Initialize auth (new API: no constructor params, login via loginWithPrivateKey)
-    this.auth = new StandXAuth();
-
-    // Initialize clients
-    this.client = new StandXClient(this.auth);
-    this.ws = new StandXWebSocket(this.auth);
-    this.orderManager = new OrderManager(this.client, this.config.trading.symbol);
+    // Initialize auth (login via loginWithSigner) and clients against the configured endpoint profile
+    const endpoints = resolveEndpoints(this.config.api);
+    this.auth = deps.auth ?? new StandXAuth(endpoints.authUrl, this.config.api.tokenTtlSec);
+    this.client = deps.client ?? new StandXClient(this.auth, endpoints.restUrl);
+    this.ws = deps.ws ?? new StandXWebSocket(this.auth, endpoints.marketStreamUrl, endpoints.orderStreamUrl);
+    this.client.setOrderStream(this.ws);
 
     // Initialize state
     this.startTime = Date.now();
+    this.points = new PointsEstimator(this.config.points.tiers);
+    this.breaker = new FillCircuitBreaker(this.trading.circuitBreaker);
+    this.schedule = new TradingSchedule(this.trading.schedule);
+    this.store = deps.store !== undefined
+      ? deps.store
+      : this.config.store.enabled ? new StateStore(this.config.store.dir, this.accountId) : null;
     this.state = {
       isRunning: false,
-      markPrice: Decimal(0),
-      position: Decimal(0),
-      buyOrder: null,
-      sellOrder: null,
+      markets: {},
       stats: {
         ordersPlaced: 0,
         ordersCanceled: 0,
         ordersFilled: 0,
+        partialFills: 0,
+        ordersAdopted: 0,
+        positionQueries: 0,
+        positionQueriesSaved: 0,
         startTime: this.startTime
-      }
+      },
+      points: this.points.getStats(),
+      circuitBreaker: this.breaker.getState(),
+      schedule: this.schedule.getStatus()
     };
+
+    // One market context per symbol, all sharing this account's session
+    for (const marketConfig of getMarketConfigs(this.trading)) {
+      const levels = getQuoteLevels(marketConfig);
+      const marketState: MarketState = {
+        symbol: marketConfig.symbol,
+        phase: 'STOPPED',
+        phaseSince: this.startTime,
+        markPrice: Decimal(0),
+        position: Decimal(0),
+        buyOrders: levels.map(() => null),
+        sellOrders: levels.map(() => null),
+        volatilityBp: null,
+        targetDistancesBp: levels.map(level => level.distanceBp),
+        unwindOrder: null,
+        positionSince: null
+      };
+
+      this.state.markets[marketConfig.symbol] = marketState;
+      this.markets.set(marketConfig.symbol, {
+        symbol: marketConfig.symbol,
+        config: marketConfig,
+        levels,
+        orderManager: new OrderManager(this.client, marketConfig.symbol, marketConfig.closePolicy, marketConfig.passiveClose),
+        strategy: createQuotingStrategy(marketConfig.strategy),
+        volatility: new VolatilityTracker(marketConfig.adaptiveDistance),
+        state: marketState,
+        lastPrice: null,
+        spreadBid: null,
+        spreadAsk: null,
+        handledFills: new Map(),
+        pendingFills: new Map(),
+        positionCheckedAt: 0,
+        cooldownUntil: null,
+        restored: null,
+        isSyncingQuotes: false,
+        isClosing: false
+      });
+    }
   }
 
   /**
@@ -80,26 +176,81 @@ export class MakerPointsBot extends EventEmitter {
     return this.account;
   }
 
+  /**
+   * Pre-flight check: derive the address from the private key (or, for an external signer, from a
+   * signed challenge), compare it with the configured address and, if it matches, sign in
+   * (start() reuses the session)
+   */
+  async preflight(): Promise<PreflightResult> {
+    const result: PreflightResult = {
+      account: this.accountId,
+      chain: this.account.chain,
+      configuredAddress: this.account.address,
+      derivedAddress: null,
+      addressMatches: false,
+      loggedIn: false
+    };
+
+    let signer: WalletSigner;
+    try {
+      signer = createAccountSigner(this.account, this.config.api.signerTimeoutMs);
+      result.derivedAddress = signer.kind === 'external' ? await this.proveSignerAddress(signer) : signer.address;
+    } catch (error: any) {
+      result.error = error.message;
+      return result;
+    }
+
+    result.addressMatches = isSameAddress(this.account.chain, result.derivedAddress, this.account.address);
+    if (!result.addressMatches) {
+      const owner = signer.kind === 'external' ? 'external signer signs for' : 'private key belongs to';
+      result.error = `${owner} ${result.derivedAddress}, not the configured ${this.account.address}`;
+      return result;
+    }
+
+    try {
+      await this.auth.loginWithSigner(signer);
+      result.loggedIn = true;
+    } catch (error: any) {
+      result.error = `login failed: ${error.message}`;
+    }
+    return result;
+  }
+
+  /**
+   * Address an external signer really signs for, from a signature over a one-off challenge
+   */
+  private async proveSignerAddress(signer: WalletSigner): Promise<string> {
+    const challenge = `StandX maker bot pre-flight check for ${this.accountId} at ${new Date().toISOString()}`;
+    const signature = await signer.signMessage(challenge);
+    const address = getSigningAddress(signer.chain, challenge, signature, signer.address);
+    if (!address) {
+      throw new Error(`external signer's signature does not verify for ${signer.address}`);
+    }
+    return address;
+  }
+
   /**
    * Start the bot
    */
   async start(): Promise<void> {
     try {
       this.logger.info('🚀 Starting StandX Maker Points Bot...');
-      this.stopRequested = false;
+      this.setAllPhases('STARTING', 'start requested');
+      this.restoreState();
 
-      // Authenticate first (new API: loginWithPrivateKey)
-      this.logger.info('Authenticating...');
-      await this.auth.loginWithPrivateKey(
-        this.account.privateKey,
-        this.account.chain
-      );
-      this.logger.info('✅ Authenticated');
+      // Authenticate first (private key or external signer), unless the pre-flight check already did
+      if (!this.auth.isAuthenticated()) {
+        this.logger.info('Authenticating...');
+        await this.auth.loginWithSigner(createAccountSigner(this.account, this.config.api.signerTimeoutMs));
+      }
+      this.logger.info(`✅ Authenticated (token expires ${new Date(this.auth.getTokenExpiresAt()!).toISOString()})`);
+      this.auth.startAutoRefresh(this.config.api.tokenRefreshMarginSec);
 
       // Initialize client
-      this.logger.info(`Initializing for ${this.config.trading.symbol}...`);
-      await this.client.initialize(this.config.trading.symbol);
-      this.logger.info(`✅ Initialized for ${this.config.trading.symbol}`);
+      const symbols = this.getSymbols();
+      this.logger.info(`Initializing for ${symbols.join(', ')}...`);
+      await this.client.initialize(symbols);
+      this.logger.info(`✅ Initialized for ${symbols.join(', ')}`);
 
       // Connect WebSocket
       this.logger.info('Connecting to WebSocket...');
@@ -108,31 +259,60 @@ export class MakerPointsBot extends EventEmitter {
 
       // Subscribe to channels
       this.logger.info('Subscribing to channels...');
-      this.ws.subscribeMarkPrice([this.config.trading.symbol]);
+      this.ws.subscribeMarkPrice(symbols);
       this.ws.subscribeUserStreams();
 
       // Setup WebSocket event handlers
       this.setupWebSocketHandlers();
 
-      // Wait for initial mark price from WebSocket
-      this.logger.info('Waiting for initial mark price from WebSocket...');
-      await this.waitForMarkPrice();
+      for (const market of this.markets.values()) {
+        // Wait for initial mark price from WebSocket
+        this.logger.info(`[${market.symbol}] Waiting for initial mark price from WebSocket...`);
+        await this.waitForMarkPrice(market);
+
+        // Check and close any existing position
+        this.logger.info(`[${market.symbol}] Checking existing positions...`);
+        await this.ensureZeroPosition(market);
+      }
 
-      // Check and close any existing position
-      this.logger.info('Checking existing positions...');
-      await this.ensureZeroPosition();
+      // Don't quote if we start outside a trading window or inside a blackout
+      const upcoming = this.schedule.getUpcomingBlackouts();
+      if (upcoming.length > 0) {
+        this.logger.info(`Blackout calendar: ${upcoming.length} upcoming event(s), next: ${upcoming[0].name} at ${new Date(upcoming[0].start).toISOString()}`);
+      }
+      await this.checkSchedule();
 
-      // Set state to running
-      this.state.isRunning = true;
-      this.emit('state_changed', this.state);
+      // A halt carried over from the previous run: close positions and place no orders
+      await this.checkCircuitBreaker();
 
       // Place initial orders
       this.logger.info('Placing initial orders...');
-      await this.placeInitialOrders();
+      for (const market of this.markets.values()) {
+        if (market.state.phase === 'HALTED') {
+          market.restored = null;
+          continue;
+        }
+
+        // A post-fill cooldown interrupted by the restart still runs out first
+        const cooldownMs = (market.restored?.cooldownUntil ?? 0) - Date.now();
+        if (cooldownMs > 0) {
+          this.logger.warn(`⏳ [${market.symbol}] Finishing cooldown from before restart: ${Math.ceil(cooldownMs / 1000)}s`);
+          await new Promise(resolve => setTimeout(resolve, cooldownMs));
+        }
+
+        this.setPhase(market, 'QUOTING', 'startup checks done', 'STARTING');
+        await this.placeInitialOrders(market);
+        market.restored = null;
+      }
+      this.emit('state_changed', this.getState());
+
+      if (this.store) {
+        this.saveTimer = setInterval(() => this.saveState(), this.config.store.saveIntervalSec * 1000);
+      }
 
       // Send startup notification
       if (telegram.isEnabled()) {
-        await telegram.startup();
+        await telegram.startup(this.accountId, this.trading);
       }
 
       this.logger.info('✅ Bot started successfully');
@@ -152,11 +332,20 @@ export class MakerPointsBot extends EventEmitter {
   async stop(): Promise<void> {
     try {
       this.logger.info('🛑 Stopping bot...');
-      this.stopRequested = true;
-      this.state.isRunning = false;
+      this.setAllPhases('STOPPING', 'stop requested');
+      this.auth.stopAutoRefresh();
+      if (this.saveTimer) {
+        clearInterval(this.saveTimer);
+        this.saveTimer = null;
+      }
 
       // Cancel all orders
-      await this.orderManager.cancelAllOrders();
+      for (const market of this.markets.values()) {
+        if (!(await market.orderManager.cancelAllOrders())) {
+          this.logger.error(`[${market.symbol}] Could not confirm all orders canceled, check the exchange`);
+          await telegram.error(`[${market.symbol}] Orders may still be open after stop, check the exchange`);
+        }
+      }
 
       // Disconnect WebSocket
       this.ws.disconnect();
@@ -166,6 +355,8 @@ export class MakerPointsBot extends EventEmitter {
         await telegram.shutdown();
       }
 
+      this.setAllPhases('STOPPED', 'stopped');
+      this.saveState();
       this.logger.info('✅ Bot stopped');
       this.emit('stopped');
 
@@ -174,21 +365,95 @@ export class MakerPointsBot extends EventEmitter {
     }
   }
 
+  /**
+   * Apply reloaded trading parameters without restarting
+   * Levels whose distance or size changed are requoted; other orders are left to the strategy,
+   * which only replaces them if they no longer fit (e.g. outside a narrowed band or a dropped side)
+   * Symbols and strategy changes need a restart and are not applied here
+   */
+  async applyConfig(account: AccountConfig = this.account): Promise<ConfigChange[]> {
+    const trading = getAccountTradingConfig(account);
+    const changes = diffConfig(this.trading, trading, 'trading').filter(change => !change.restartOnly);
+    if (changes.length === 0) {
+      return [];
+    }
+
+    // Build everything first so an invalid ladder or blackout calendar leaves the bot untouched
+    const marketConfigs = getMarketConfigs({ ...trading, symbols: this.getSymbols() });
+    const prepared = marketConfigs.map(config => ({ config, levels: getQuoteLevels(config) }));
+    const schedule = changes.some(change => change.path.startsWith('trading.schedule.'))
+      ? new TradingSchedule(trading.schedule)
+      : this.schedule;
+
+    // The reloaded config has no key for keystore-backed accounts; keep the unlocked one
+    this.account = { ...account, privateKey: this.account.privateKey };
+    this.trading = trading;
+    this.breaker.setConfig(trading.circuitBreaker);
+    this.schedule = schedule;
+
+    for (const change of changes) {
+      this.logger.info(`⚙️ ${change.path}: ${change.from} → ${change.to}`);
+    }
+
+    for (const { config, levels } of prepared) {
+      const market = this.markets.get(config.symbol)!;
+      const previousLevels = market.levels;
+
+      market.config = config;
+      market.levels = levels;
+      market.volatility.setConfig(config.adaptiveDistance);
+      market.orderManager.setClosePolicy(config.closePolicy, config.passiveClose);
+
+      // Cancel orders on levels that moved, changed size or no longer exist; slots are resized in place
+      for (const side of ['buy', 'sell'] as OrderSide[]) {
+        const slots = this.getOrderSlots(market, side);
+        for (let i = 0; i < slots.length; i++) {
+          const previous = previousLevels[i];
+          const next = levels[i];
+          const order = slots[i];
+          const moved = !next || next.distanceBp !== previous.distanceBp || next.sizeBtc !== previous.sizeBtc;
+          if (order && moved) {
+            this.logger.info(`[${this.levelTag(market, side, previous)}] Level changed, requoting ${order.orderId}`);
+            if (await market.orderManager.cancelOrder(order.orderId)) {
+              this.state.stats.ordersCanceled++;
+            }
+            slots[i] = null;
+          }
+        }
+        slots.length = levels.length;
+        slots.fill(null, previousLevels.length);
+      }
+
+      this.updateTargetDistances(market);
+      await this.syncQuotes(market);
+    }
+
+    this.emit('config_applied', changes);
+    return changes;
+  }
+
+  /**
+   * Symbols quoted by this bot
+   */
+  getSymbols(): string[] {
+    return Array.from(this.markets.keys());
+  }
+
   /**
    * Wait for initial mark price to be set
    */
-  private async waitForMarkPrice(): Promise<void> {
+  private async waitForMarkPrice(market: MarketContext): Promise<void> {
     const maxWait = 10; // seconds
     const start = Date.now();
 
-    while (this.markPrice.eq(0)) {
+    while (market.state.markPrice.eq(0)) {
       if (Date.now() - start > maxWait * 1000) {
-        throw new Error('Timeout waiting for mark price');
+        throw new Error(`Timeout waiting for ${market.symbol} mark price`);
       }
       await new Promise(resolve => setTimeout(resolve, 100));
     }
 
-    this.logger.info(`✅ Initial mark price: $${this.markPrice.toFixed(2)}`);
+    this.logger.info(`✅ [${market.symbol}] Initial mark price: $${market.state.markPrice.toFixed(2)}`);
   }
 
   /**
@@ -216,14 +481,30 @@ export class MakerPointsBot extends EventEmitter {
       telegram.warning(`WebSocket reconnecting... (attempt ${info.attempt})`);
     });
 
-    this.ws.on('market_reconnected', () => {
+    // A new access token must be handed to both streams; orders stay in place
+    this.auth.on('token_refreshed', () => {
+      this.logger.info('🔑 Access token refreshed, re-authenticating WebSocket streams');
+      this.ws.reauthenticate();
+    });
+
+    this.auth.on('token_refresh_failed', (error: Error) => {
+      telegram.warning(`Access token refresh failed: ${error.message}`);
+    });
+
+    this.ws.on('market_reconnected', async () => {
       this.logger.info('✅ Market WebSocket reconnected');
       telegram.info('Market WebSocket reconnected');
       // Resubscribe
-      this.ws.subscribeMarkPrice([this.config.trading.symbol]);
+      this.ws.subscribeMarkPrice(this.getSymbols());
       this.ws.subscribeUserStreams();
+      // Position updates may have been missed while disconnected
+      for (const market of this.markets.values()) {
+        market.positionCheckedAt = 0;
+      }
       // Restore orders
-      this.placeInitialOrders();
+      for (const market of this.markets.values()) {
+        await this.placeInitialOrders(market);
+      }
     });
   }
 
@@ -231,31 +512,42 @@ export class MakerPointsBot extends EventEmitter {
    * Handle mark price updates
    */
   private async handleMarkPriceUpdate(data: WSMarkPriceData): Promise<void> {
+    const market = this.markets.get(data.symbol);
+    if (!market) {
+      return;
+    }
+
     try {
       const markPrice = new Decimal(data.markPrice);
-      this.markPrice = markPrice;
-      this.state.markPrice = markPrice;
+      market.state.markPrice = markPrice;
+
+      // Credit resting ladder orders for the time since the previous tick
+      const resting = [...market.state.buyOrders, ...market.state.sellOrders].filter((o): o is OrderInfo => o !== null);
+      this.points.sample(market.symbol, resting, markPrice);
+
+      market.volatility.addSample(markPrice);
+      this.updateTargetDistances(market);
 
       // Update last price and spread from WS data
       if (data.lastPrice) {
-        this.lastPrice = new Decimal(data.lastPrice);
+        market.lastPrice = new Decimal(data.lastPrice);
       }
       if (data.spread && Array.isArray(data.spread) && data.spread.length >= 2) {
-        this.spreadBid = new Decimal(data.spread[0]);
-        this.spreadAsk = new Decimal(data.spread[1]);
+        market.spreadBid = new Decimal(data.spread[0]);
+        market.spreadAsk = new Decimal(data.spread[1]);
       }
 
-      this.logger.debug(`Mark price updated: $${markPrice.toFixed(2)}`);
-      if (this.lastPrice) {
-        const gapBp = this.lastPrice.sub(markPrice).abs().div(markPrice).mul(10000);
-        this.logger.debug(`Last-mark gap: ${gapBp.toFixed(2)} bp (mark: ${markPrice.toFixed(2)}, last: ${this.lastPrice.toFixed(2)})`);
+      this.logger.debug(`[${market.symbol}] Mark price updated: $${markPrice.toFixed(2)}`);
+      if (market.lastPrice) {
+        const gapBp = market.lastPrice.sub(markPrice).abs().div(markPrice).mul(10000);
+        this.logger.debug(`[${market.symbol}] Last-mark gap: ${gapBp.toFixed(2)} bp (mark: ${markPrice.toFixed(2)}, last: ${market.lastPrice.toFixed(2)})`);
       }
 
       // Check if we need to cancel and replace orders
-      await this.checkAndReplaceOrders();
+      await this.checkAndReplaceOrders(market);
 
     } catch (error: any) {
-      this.logger.error(`Error handling mark price update: ${error.message}`);
+      this.logger.error(`[${market.symbol}] Error handling mark price update: ${error.message}`);
     }
   }
 
@@ -269,20 +561,33 @@ export class MakerPointsBot extends EventEmitter {
 
       this.logger.debug(`Order update: ${orderId} - ${status}`);
 
-      // Update our order tracking
-      if (this.state.buyOrder && this.state.buyOrder.orderId === orderId) {
-        this.state.buyOrder.status = status;
-        this.state.buyOrder.filledQty = new Decimal(data.fillQty);
+      // Route to the market the order belongs to
+      const market = this.markets.get(data.symbol) ?? this.findMarketByOrderId(orderId);
+      if (!market) {
+        this.logger.debug(`Ignoring order update for unmanaged symbol ${data.symbol}`);
+        return;
+      }
+
+      // Fills of our own close orders reduce exposure, they are not new fills
+      if (market.orderManager.isCloseOrder(orderId)) {
+        this.logger.debug(`[${market.symbol}] Close order update: ${orderId} - ${status}`);
+        return;
       }
 
-      if (this.state.sellOrder && this.state.sellOrder.orderId === orderId) {
-        this.state.sellOrder.status = status;
-        this.state.sellOrder.filledQty = new Decimal(data.fillQty);
+      // Update our order tracking
+      const tracked = this.findTrackedOrder(market, orderId)?.order
+        ?? (market.state.unwindOrder?.orderId === orderId ? market.state.unwindOrder : null);
+      if (tracked) {
+        // With the keep policy the unfilled remainder is managed like any open order
+        tracked.status = status === 'PARTIALLY_FILLED' && market.config.partialFillPolicy === 'keep' ? 'OPEN' : status;
+        tracked.filledQty = new Decimal(data.fillQty || 0);
       }
 
-      // Check if order was filled
-      if (status === 'FILLED') {
-        await this.handleOrderFilled(data);
+      // Check if order was (partially) filled
+      if (status === 'FILLED' || status === 'PARTIALLY_FILLED') {
+        await this.handleOrderFilled(market, data);
+      } else if (status === 'CANCELED') {
+        market.handledFills.delete(orderId);
       }
 
       this.emit('order_updated', this.state);
@@ -296,564 +601,1278 @@ export class MakerPointsBot extends EventEmitter {
    * Handle position updates
    */
   private async handlePositionUpdate(data: any): Promise<void> {
+    const market = this.markets.get(data.symbol);
+    if (!market) {
+      return;
+    }
+
     try {
       const position = new Decimal(data.positionAmt || data.qty || 0);
-      const previousPosition = this.state.position;
-      this.state.position = position;
+      const previousPosition = market.state.position;
+      this.trackPosition(market, position);
 
-      this.logger.debug(`Position updated: ${previousPosition} → ${position} BTC`);
+      this.logger.debug(`[${market.symbol}] Position updated: ${previousPosition} → ${position} ${this.unit(market)}`);
 
       // Check if position changed from zero (an order was filled)
       if (previousPosition.abs().lt(new Decimal('0.00001')) && position.abs().gte(new Decimal('0.00001'))) {
-        this.logger.warn(`⚠️⚠️⚠️ POSITION DETECTED VIA WEBSOCKET ⚠️⚠️⚠️`);
-        this.logger.warn(`  Previous: ${previousPosition} BTC`);
-        this.logger.warn(`  Current: ${position} BTC`);
+        const closeReason = this.getForceCloseReason(market, position);
+        if (!closeReason) {
+          this.logger.info(`📦 [${market.symbol}] Position ${position} ${this.unit(market)} within inventory limits, holding`);
+        } else {
+          this.logger.warn(`⚠️⚠️⚠️ [${market.symbol}] POSITION DETECTED VIA WEBSOCKET ⚠️⚠️⚠️`);
+          this.logger.warn(`  Previous: ${previousPosition} ${this.unit(market)}`);
+          this.logger.warn(`  Current: ${position} ${this.unit(market)}`);
 
-        // Close position immediately
-        await this.closeDetectedPosition(position);
+          // Close position immediately
+          await this.closeDetectedPosition(market, position, closeReason);
+        }
       }
 
       // Emit event
-      this.emit('position_updated', position);
+      this.emit('position_updated', { symbol: market.symbol, position });
 
     } catch (error: any) {
-      this.logger.error(`Error handling position update: ${error.message}`);
+      this.logger.error(`[${market.symbol}] Error handling position update: ${error.message}`);
     }
   }
 
   /**
    * Close detected position immediately
    */
-  private async closeDetectedPosition(position: Decimal): Promise<void> {
+  private async closeDetectedPosition(market: MarketContext, position: Decimal, reason?: string): Promise<void> {
+    // A halted account closes its positions without leaving HALTED
+    const halted = market.state.phase === 'HALTED';
+    if (halted ? market.isClosing : !this.setPhase(market, 'UNWINDING', reason ?? 'position detected')) {
+      this.logger.debug(`[${market.symbol}] Not closing position in phase ${market.state.phase}`);
+      return;
+    }
+    market.isClosing = true;
+
     try {
-      const positionSize = position.abs();
-      const closeSide = position.gt(0) ? 'sell' : 'buy';
+      // Cancel all pending orders first
+      await market.orderManager.cancelAllOrders();
 
-      this.logger.warn(`🔄 Closing position via market order...`);
-      this.logger.warn(`  Size: ${positionSize} BTC`);
-      this.logger.warn(`  Side: ${closeSide}`);
+      let size = position;
+      while (true) {
+        const positionSize = size.abs();
+        const closeSide = size.gt(0) ? 'sell' : 'buy';
 
-      // Cancel all pending orders first
-      await this.orderManager.cancelAllOrders();
+        this.logger.warn(`🔄 [${market.symbol}] Closing position (${market.config.closePolicy} close)...`);
+        if (reason) {
+          this.logger.warn(`  Reason: ${reason}`);
+        }
+        this.logger.warn(`  Size: ${positionSize} ${this.unit(market)}`);
+        this.logger.warn(`  Side: ${closeSide}`);
 
-      // Close position with market order
-      const closed = await this.orderManager.closePosition(positionSize, closeSide);
+        // Close position with market order
+        const closed = await market.orderManager.closePosition(positionSize, closeSide);
 
-      if (!closed) {
-        this.logger.error('❌ Failed to close position!');
-        await telegram.error('Failed to close position! Manual intervention required!');
-        // Stop the bot to prevent further damage
-        await this.stop();
-        return;
+        if (!closed) {
+          this.logger.error(`❌ [${market.symbol}] Failed to close position!`);
+          await telegram.error(`[${market.symbol}] Failed to close position! Manual intervention required!`);
+          // Stop the bot to prevent further damage
+          await this.stop();
+          return;
+        }
+
+        this.logger.warn(`✅ [${market.symbol}] Position closed successfully`);
+
+        // Take the closed size off the tracked position; fills it did not cover stay visible
+        // and the next check confirms the rest over REST
+        this.trackPosition(market, market.state.position.minus(size));
+        market.positionCheckedAt = 0;
+
+        // Fills during the close may not be part of the closed size: close whatever they left
+        if (market.pendingFills.size === 0) {
+          break;
+        }
+        this.settlePendingFills(market);
+        size = await this.queryPosition(market);
+        if (size.abs().lt(new Decimal('0.00001'))) {
+          break;
+        }
       }
 
-      this.logger.warn(`✅ Position closed successfully`);
+      // Send notification
+      if (telegram.isEnabled()) {
+        await telegram.warning(`[${market.symbol}] Position detected and closed (${market.config.closePolicy} close)${reason ? ` (${reason})` : ''}`);
+      }
 
-      // Update position back to zero
-      this.state.position = Decimal(0);
+      if (halted || !this.setPhase(market, 'COOLDOWN', 'position closed', 'UNWINDING')) {
+        return;
+      }
+      const cooldownUntil = Date.now() + 5000;
+      market.cooldownUntil = cooldownUntil;
+      this.saveState();
 
       // Wait a moment before placing new orders
       await new Promise(resolve => setTimeout(resolve, 5000));
 
-      // Replace orders
-      this.logger.warn(`🔄 Replacing orders...`);
-      await this.placeInitialOrders();
-
-      // Send notification
-      if (telegram.isEnabled()) {
-        await telegram.warning('Position detected and closed via market order');
+      // Replace orders, unless something else (stop, halt, a new close or fill) took over meanwhile
+      if (market.cooldownUntil !== cooldownUntil || !this.setPhase(market, this.getRestingPhase(), 'cooldown over', 'COOLDOWN')) {
+        return;
       }
+      this.logger.warn(`🔄 [${market.symbol}] Replacing orders...`);
+      await this.placeInitialOrders(market);
 
     } catch (error: any) {
-      this.logger.error(`Error closing detected position: ${error.message}`);
-      await telegram.error(`Error closing position: ${error.message}`);
+      this.logger.error(`[${market.symbol}] Error closing detected position: ${error.message}`);
+      await telegram.error(`[${market.symbol}] Error closing position: ${error.message}`);
       await this.stop();
+    } finally {
+      market.isClosing = false;
     }
   }
 
   /**
-   * Place initial orders
+   * Place initial orders, keeping our own open orders that are still usable
    */
-  private async placeInitialOrders(): Promise<void> {
+  private async placeInitialOrders(market: MarketContext): Promise<void> {
+    if (!QUOTE_PHASES.includes(market.state.phase)) {
+      this.logger.debug(`[${market.symbol}] Not placing orders in phase ${market.state.phase}`);
+      return;
+    }
+
     try {
-      const mode = this.config.trading.mode;
-
-      // Cancel any existing orders
-      await this.orderManager.cancelAllOrders();
-
-      // Place orders based on mode
-      if (mode === 'both' || mode === 'buy') {
-        const buyPrice = this.orderManager.calculateOrderPrice(
-          'buy',
-          this.markPrice,
-          this.config.trading.orderDistanceBp
-        );
-
-        const buyOrder = await this.orderManager.placeOrder(
-          'buy',
-          new Decimal(this.config.trading.orderSizeBtc),
-          buyPrice
-        );
-
-        if (buyOrder) {
-          this.state.buyOrder = buyOrder;
-          this.state.stats.ordersPlaced++;
-        }
+      // Adopt our open orders (keeps queue priority), cancel the rest; nothing rests while paused
+      if (market.state.phase === 'QUOTING') {
+        await this.adoptOpenOrders(market);
+      } else {
+        await this.cancelAllOrders(market);
       }
 
-      if (mode === 'both' || mode === 'sell') {
-        const sellPrice = this.orderManager.calculateOrderPrice(
-          'sell',
-          this.markPrice,
-          this.config.trading.orderDistanceBp
-        );
+      // Place whatever the strategy wants for the current market; it also replaces adopted
+      // orders that are off target
+      await this.syncQuotes(market);
+
+      this.emit('orders_placed', this.state);
+      this.logger.info(`✅ [${market.symbol}] Initial orders placed`);
+
+    } catch (error: any) {
+      this.logger.error(`[${market.symbol}] Error placing initial orders: ${error.message}`);
+    }
+  }
 
-        const sellOrder = await this.orderManager.placeOrder(
-          'sell',
-          new Decimal(this.config.trading.orderSizeBtc),
-          sellPrice
-        );
+  /**
+   * Put open orders left from a previous run or connection back into their ladder slots
+   * An order is adopted if it has our client order ID prefix, is on a quoted side, matches a free
+   * level's size and sits inside that level's band; everything else is canceled
+   */
+  private async adoptOpenOrders(market: MarketContext): Promise<void> {
+    // Fetch first: if the query fails, the tracked orders are kept instead of being placed again
+    const orders = await market.orderManager.getOpenOrders();
+    this.clearOrderSlots(market);
+    const markPrice = market.state.markPrice;
+    const mode = market.config.mode;
+    let adopted = 0;
+
+    for (const order of orders) {
+      const clientOrderId = order.clientOrderId || order.orderId;
+      let stray: string | null = null;
+
+      if (!clientOrderId.startsWith('bot-')) {
+        stray = 'not placed by this bot';
+      } else if (mode !== 'both' && mode !== order.side) {
+        stray = `${order.side} side not quoted`;
+      } else if (order.filledQty.gt(0) && market.config.partialFillPolicy !== 'keep') {
+        stray = 'partially filled';
+      } else {
+        const distance = markPrice.minus(order.price).abs().div(order.price).mul(10000);
+        const slots = this.getOrderSlots(market, order.side);
+        // Try the level the order had before a restart first
+        const savedIds = order.side === 'buy' ? market.restored?.buyOrderIds : market.restored?.sellOrderIds;
+        const savedIndex = savedIds?.indexOf(clientOrderId) ?? -1;
+        const candidates = savedIndex >= 0
+          ? [market.levels[savedIndex], ...market.levels.filter(l => l.index !== savedIndex)].filter(l => l !== undefined)
+          : market.levels;
+        const level = candidates.find(l => slots[l.index] === null
+          && order.qty.eq(l.sizeBtc)
+          && distance.gte(l.minDistanceBp)
+          && distance.lte(l.maxDistanceBp));
+
+        if (!level) {
+          stray = `no free level for ${order.qty} @ ${distance.toFixed(2)} bp`;
+        } else {
+          // Order updates are keyed by client order ID, as for orders placed by this run
+          slots[level.index] = { ...order, orderId: clientOrderId, clientOrderId, status: 'OPEN' };
+          if (order.filledQty.gt(0)) {
+            // The filled part is already in the position the startup/reconcile check looked at
+            market.handledFills.set(clientOrderId, order.filledQty);
+          }
+          adopted++;
+          this.logger.info(`[${this.levelTag(market, order.side, level)}] Adopted open order ${clientOrderId} @ $${order.price.toFixed(2)} (${distance.toFixed(2)} bp)`);
+        }
+      }
 
-        if (sellOrder) {
-          this.state.sellOrder = sellOrder;
-          this.state.stats.ordersPlaced++;
+      if (stray) {
+        this.logger.info(`[${market.symbol}] Canceling open order ${order.orderId} (${stray})`);
+        if (await market.orderManager.cancelOrder(order.orderId)) {
+          this.state.stats.ordersCanceled++;
         }
       }
+    }
 
-      this.emit('orders_placed', this.state);
-      this.logger.info('✅ Initial orders placed');
+    this.state.stats.ordersAdopted += adopted;
+    if (orders.length > 0) {
+      this.logger.info(`[${market.symbol}] Adopted ${adopted} of ${orders.length} open orders`);
+    }
+  }
 
-    } catch (error: any) {
-      this.logger.error(`Error placing initial orders: ${error.message}`);
+  /**
+   * Place a desired quote and track it in its ladder slot
+   */
+  private async placeQuote(market: MarketContext, quote: DesiredQuote): Promise<OrderInfo | null> {
+    const price = market.orderManager.calculateOrderPrice(quote.side, market.state.markPrice, quote.distanceBp);
+    const order = await market.orderManager.placeOrder(quote.side, quote.size, price);
+
+    if (order) {
+      this.getOrderSlots(market, quote.side)[quote.level] = order;
+      this.state.stats.ordersPlaced++;
     }
+
+    return order;
+  }
+
+  /**
+   * Get the per-level order slots for a side
+   */
+  private getOrderSlots(market: MarketContext, side: OrderSide): (OrderInfo | null)[] {
+    return side === 'buy' ? market.state.buyOrders : market.state.sellOrders;
+  }
+
+  /**
+   * Forget all tracked orders on both sides
+   */
+  private clearOrderSlots(market: MarketContext): void {
+    market.state.buyOrders.fill(null);
+    market.state.sellOrders.fill(null);
+    market.state.unwindOrder = null;
+  }
+
+  /**
+   * Cancel every open order of a market and forget the tracked ones
+   * If that can't be confirmed they stay tracked, so they are neither lost nor placed again
+   */
+  private async cancelAllOrders(market: MarketContext): Promise<boolean> {
+    if (!(await market.orderManager.cancelAllOrders())) {
+      this.logger.error(`[${market.symbol}] Could not confirm all orders canceled, keeping them tracked`);
+      return false;
+    }
+
+    this.clearOrderSlots(market);
+    return true;
+  }
+
+  /**
+   * Whether any ladder or unwind order is tracked
+   */
+  private hasTrackedOrders(market: MarketContext): boolean {
+    return [...market.state.buyOrders, ...market.state.sellOrders, market.state.unwindOrder].some(order => order !== null);
+  }
+
+  /**
+   * Find a tracked order by ID across all levels
+   */
+  private findTrackedOrder(market: MarketContext, orderId: string): { side: OrderSide; level: QuoteLevel; order: OrderInfo } | null {
+    for (const side of ['buy', 'sell'] as OrderSide[]) {
+      const slots = this.getOrderSlots(market, side);
+      const index = slots.findIndex(order => order !== null && order.orderId === orderId);
+      if (index >= 0) {
+        return { side, level: market.levels[index], order: slots[index]! };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Find the market tracking an order (for updates that arrive without a symbol)
+   */
+  private findMarketByOrderId(orderId: string): MarketContext | undefined {
+    for (const market of this.markets.values()) {
+      if (this.findTrackedOrder(market, orderId) || market.state.unwindOrder?.orderId === orderId) {
+        return market;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Log tag for a side/level, e.g. BUY#1 (levels are shown 1-based)
+   * Prefixed with the symbol when quoting more than one market
+   */
+  private levelTag(market: MarketContext, side: OrderSide, level: QuoteLevel): string {
+    const tag = market.levels.length > 1
+      ? `${side.toUpperCase()}#${level.index + 1}`
+      : side.toUpperCase();
+    return this.markets.size > 1 ? `${market.symbol} ${tag}` : tag;
+  }
+
+  /**
+   * Base asset used as size unit in logs (e.g. BTC)
+   */
+  private unit(market: MarketContext): string {
+    return this.client.getContract(market.symbol)?.baseAsset || market.symbol.split('-')[0];
   }
 
   /**
    * Check and replace orders if mark price is outside valid range
    */
-  private async checkAndReplaceOrders(): Promise<void> {
-    if (!this.state.isRunning || this.stopRequested) {
+  private async checkAndReplaceOrders(market: MarketContext): Promise<void> {
+    // A halted market quotes nothing but still keeps its position flat
+    if (market.state.phase === 'HALTED') {
+      await this.checkHaltedMarket(market);
       return;
     }
 
-    if (this.markPrice.eq(0)) {
+    // Not while starting/stopping, nor while a fill or position close is being handled
+    if (!CHECK_PHASES.includes(market.state.phase)) {
+      this.logger.debug(`[${market.symbol}] Skipping checkAndReplaceOrders in phase ${market.state.phase}`);
       return;
     }
 
-    // Skip if we're currently processing a fill to prevent race conditions
-    if (this.isProcessingFill) {
-      this.logger.debug('Skipping checkAndReplaceOrders - fill processing in progress');
+    const markPrice = market.state.markPrice;
+    if (markPrice.eq(0)) {
       return;
     }
 
     try {
-      // SAFETY CHECK: Verify position is zero
-      const currentPosition = await this.orderManager.getCurrentPosition();
-      if (currentPosition.abs().gte(new Decimal('0.00001'))) {
-        this.logger.error(`⚠️⚠️⚠️ NON-ZERO POSITION DETECTED IN CHECK LOOP ⚠️⚠️⚠️`);
-        this.logger.error(`  Position: ${currentPosition} BTC`);
-        await this.closeDetectedPosition(currentPosition);
+      await this.checkCircuitBreaker();
+      await this.checkSchedule();
+
+      // Orders a failed cancel left behind, or those of a market that paused after handling a fill
+      if (market.state.phase === 'PAUSED_SCHEDULE' && this.hasTrackedOrders(market)) {
+        await this.cancelAllOrders(market);
+      }
+
+      // SAFETY CHECK: Verify position is zero (or within inventory limits)
+      const currentPosition = await this.getCheckPosition(market);
+      const closeReason = this.getForceCloseReason(market, currentPosition);
+      if (closeReason) {
+        if (market.config.inventory.enabled) {
+          this.logger.error(`⚠️⚠️⚠️ [${market.symbol}] INVENTORY LIMIT BREACHED: ${closeReason} ⚠️⚠️⚠️`);
+        } else {
+          this.logger.error(`⚠️⚠️⚠️ [${market.symbol}] NON-ZERO POSITION DETECTED IN CHECK LOOP ⚠️⚠️⚠️`);
+        }
+        this.logger.error(`  Position: ${currentPosition} ${this.unit(market)}`);
+        await this.closeDetectedPosition(market, currentPosition, closeReason);
         return;
       }
 
-      const minDistanceBp = this.config.trading.minDistanceBp;
-      const maxDistanceBp = this.config.trading.maxDistanceBp;
-      const orderDistanceBp = this.config.trading.orderDistanceBp;
+      await this.syncQuotes(market);
 
-      // === NEW CHECK 1: Last-Mark Gap Detection ===
-      // If last price is too far from mark, market is volatile - pause ordering
-      if (this.lastPrice) {
-        const lastMarkGapBp = this.lastPrice.sub(this.markPrice).abs().div(this.markPrice).mul(10000);
+    } catch (error: any) {
+      this.logger.error(`[${market.symbol}] Error in check and replace: ${error.message}`);
+    }
+  }
 
-        if (lastMarkGapBp.gt(orderDistanceBp)) {
-          if (!this.isPausedDueToVolatility) {
-            // First time detecting high volatility
-            this.logger.warn(`⚠️ HIGH VOLATILITY DETECTED: last-mark gap = ${lastMarkGapBp.toFixed(2)} bp > ${orderDistanceBp} bp`);
-            this.logger.warn(`  Mark: $${this.markPrice.toFixed(2)}, Last: $${this.lastPrice.toFixed(2)}`);
-            this.logger.warn(`  Canceling all orders and pausing until market stabilizes...`);
+  /**
+   * Ask the strategy for desired quotes and diff them against live orders
+   * - Pause: cancel everything until the strategy stops pausing
+   * - Slot without desired quote: cancel
+   * - Empty slot with desired quote: place
+   * - Live order flagged by the strategy: cancel and replace
+   */
+  private async syncQuotes(market: MarketContext): Promise<void> {
+    if (market.isSyncingQuotes) {
+      return;
+    }
 
-            this.isPausedDueToVolatility = true;
-            await this.orderManager.cancelAllOrders();
-            this.state.buyOrder = null;
-            this.state.sellOrder = null;
+    market.isSyncingQuotes = true;
+    try {
+      await this.applyDecision(market);
+    } finally {
+      market.isSyncingQuotes = false;
+    }
+  }
 
-            telegram.warning(`⚠️ High volatility detected (last-mark gap: ${lastMarkGapBp.toFixed(2)} bp). Pausing orders.`);
-          }
-          // Skip all order checks while paused
-          return;
-        } else {
-          // Volatility has subsided
-          if (this.isPausedDueToVolatility && lastMarkGapBp.lt(new Decimal(orderDistanceBp).mul(0.8))) {
-            // Only resume when gap is below 80% of threshold (hysteresis)
-            this.logger.info(`✅ Volatility normalized. Gap: ${lastMarkGapBp.toFixed(2)} bp. Resuming orders...`);
-            this.isPausedDueToVolatility = false;
-
-            // Place orders to resume trading
-            const mode = this.config.trading.mode;
-            if (mode === 'both' || mode === 'buy') {
-              const buyPrice = this.orderManager.calculateOrderPrice(
-                'buy',
-                this.markPrice,
-                this.config.trading.orderDistanceBp
-              );
-              const buyOrder = await this.orderManager.placeOrder(
-                'buy',
-                new Decimal(this.config.trading.orderSizeBtc),
-                buyPrice
-              );
-              if (buyOrder) {
-                this.state.buyOrder = buyOrder;
-                this.state.stats.ordersPlaced++;
-                this.logger.info(`[BUY] Order placed after resuming: ${buyOrder.orderId} @ $${buyOrder.price.toFixed(2)}`);
-              }
-            }
-            if (mode === 'both' || mode === 'sell') {
-              const sellPrice = this.orderManager.calculateOrderPrice(
-                'sell',
-                this.markPrice,
-                this.config.trading.orderDistanceBp
-              );
-              const sellOrder = await this.orderManager.placeOrder(
-                'sell',
-                new Decimal(this.config.trading.orderSizeBtc),
-                sellPrice
-              );
-              if (sellOrder) {
-                this.state.sellOrder = sellOrder;
-                this.state.stats.ordersPlaced++;
-                this.logger.info(`[SELL] Order placed after resuming: ${sellOrder.orderId} @ $${sellOrder.price.toFixed(2)}`);
-              }
-            }
+  /**
+   * Run the strategy once and apply its decision
+   */
+  private async applyDecision(market: MarketContext): Promise<void> {
+    const breaker = this.breaker.getState();
+    if (!QUOTE_PHASES.includes(market.state.phase)) {
+      return;
+    }
 
-            telegram.info(`✅ Volatility normalized. Resuming orders.`);
-          } else if (this.isPausedDueToVolatility) {
-            // Still paused
-            this.logger.debug(`Still paused due to volatility. Gap: ${lastMarkGapBp.toFixed(2)} bp`);
-            return;
-          }
-        }
+    const decision = market.strategy.quote(this.getSnapshot(market));
+
+    if (decision.pauseReason) {
+      if (this.setPhase(market, 'PAUSED_VOLATILITY', decision.pauseReason, 'QUOTING')) {
+        this.logger.warn(`⚠️ [${market.symbol}] ${decision.pauseReason}`);
+        this.logger.warn(`  Mark: $${market.state.markPrice.toFixed(2)}, Last: $${market.lastPrice?.toFixed(2) ?? '-'}`);
+        this.logger.warn(`  Canceling all orders and pausing until market stabilizes...`);
+
+        await this.cancelAllOrders(market);
+
+        telegram.warning(`⚠️ [${market.symbol}] ${decision.pauseReason}. Pausing orders.`);
+      } else if (this.hasTrackedOrders(market)) {
+        // Canceling them when the pause started failed
+        await this.cancelAllOrders(market);
+      } else {
+        this.logger.debug(`[${market.symbol}] Still paused: ${decision.pauseReason}`);
       }
+      return;
+    }
 
-      // === NEW CHECK 2: Spread Validation ===
-      // Ensure orders are not inside the spread (would get filled immediately)
-      if (this.spreadBid && this.spreadAsk) {
-        // Check buy order
-        if (this.state.buyOrder && this.state.buyOrder.status === 'OPEN') {
-          const buyPrice = this.state.buyOrder.price;
-          if (buyPrice.gte(this.spreadBid)) {
-            this.logger.warn(`[BUY] Order inside spread! Buy: ${buyPrice.toFixed(2)} >= Bid: ${this.spreadBid.toFixed(2)}`);
-            this.logger.warn(`  Canceling and replacing...`);
-            await this.replaceOrder('buy');
-            return;  // Exit after replace, will recheck on next update
-          }
+    if (this.setPhase(market, 'QUOTING', 'market normalized', 'PAUSED_VOLATILITY')) {
+      this.logger.info(`✅ [${market.symbol}] Market normalized. Resuming orders...`);
+      telegram.info(`✅ [${market.symbol}] Market normalized. Resuming orders.`);
+    }
+
+    for (const side of ['buy', 'sell'] as OrderSide[]) {
+      for (const level of market.levels) {
+        const slots = this.getOrderSlots(market, side);
+        const order = slots[level.index];
+        const quote = breaker.blockedSides.includes(side)
+          ? undefined
+          : decision.quotes.find(q => q.side === side && q.level === level.index);
+        const tag = this.levelTag(market, side, level);
+
+        // Partial fill the fill path skipped (another fill was in progress): drop the remainder,
+        // the position check takes care of the filled part
+        if (order && order.status === 'PARTIALLY_FILLED' && order.filledQty.gt(market.handledFills.get(order.orderId) ?? 0)) {
+          await this.cancelRemainder(market, order.orderId);
+          continue;
+        }
+
+        // Orders that are (partially) filled are handled by the fill path
+        if (order && order.status !== 'OPEN' && order.status !== 'CANCELED' && order.status !== 'FAILED') {
+          continue;
         }
-        // Check sell order
-        if (this.state.sellOrder && this.state.sellOrder.status === 'OPEN') {
-          const sellPrice = this.state.sellOrder.price;
-          if (sellPrice.lte(this.spreadAsk)) {
-            this.logger.warn(`[SELL] Order inside spread! Sell: ${sellPrice.toFixed(2)} <= Ask: ${this.spreadAsk.toFixed(2)}`);
-            this.logger.warn(`  Canceling and replacing...`);
-            await this.replaceOrder('sell');
-            return;  // Exit after replace, will recheck on next update
+        const live = order !== null && order.status === 'OPEN';
+
+        if (!quote) {
+          if (live) {
+            this.logger.info(`[${tag}] No longer quoted, canceling ${order!.orderId}...`);
+            if (await market.orderManager.cancelOrder(order!.orderId)) {
+              this.state.stats.ordersCanceled++;
+            }
           }
+          slots[level.index] = null;
+          continue;
         }
-      }
 
-      // === EXISTING CHECK: Mark Price Distance ===
-      // Check buy order
-      if (this.state.buyOrder && this.state.buyOrder.status === 'OPEN') {
-        const distance = this.markPrice
-          .minus(this.state.buyOrder.price)
-          .abs()
-          .div(this.state.buyOrder.price)
-          .mul(10000);
-
-        // Replace if too close (risk of fill) or too far (no points)
-        if (distance.lt(new Decimal(minDistanceBp))) {
-          this.logger.info(`[BUY] Too close to mark price (${distance.toFixed(2)} bp < ${minDistanceBp} bp), canceling and replacing...`);
-          await this.replaceOrder('buy');
-        } else if (distance.gt(new Decimal(maxDistanceBp))) {
-          this.logger.info(`[BUY] Too far from mark price (${distance.toFixed(2)} bp > ${maxDistanceBp} bp), canceling and replacing...`);
-          await this.replaceOrder('buy');
+        if (!live) {
+          const newOrder = await this.placeQuote(market, quote);
+          if (newOrder) {
+            this.logger.info(`[${tag}] Order placed: ${newOrder.orderId} @ $${newOrder.price.toFixed(2)}`);
+          }
+        } else if (quote.replaceReason) {
+          this.logger.info(`[${tag}] ${quote.replaceReason}, canceling and replacing...`);
+          await this.replaceOrder(market, level, quote);
         } else {
-          this.logger.debug(`[BUY] Order in valid range: ${distance.toFixed(2)} bp [${minDistanceBp}-${maxDistanceBp} bp]`);
+          this.logger.debug(`[${tag}] Order kept @ $${order!.price.toFixed(2)}`);
         }
       }
+    }
+
+    await this.syncUnwindOrder(market, decision.unwind);
+  }
+
+  /**
+   * Diff the reduce-only unwind order against the strategy's unwind quote
+   */
+  private async syncUnwindOrder(market: MarketContext, quote: UnwindQuote | undefined): Promise<void> {
+    const order = market.state.unwindOrder;
+    const tag = this.markets.size > 1 ? `${market.symbol} UNWIND` : 'UNWIND';
+
+    // Orders that are (partially) filled are handled by the fill path
+    if (order && order.status !== 'OPEN' && order.status !== 'CANCELED' && order.status !== 'FAILED') {
+      return;
+    }
+    const live = order !== null && order.status === 'OPEN';
+
+    if (live) {
+      if (quote && !quote.replaceReason) {
+        this.logger.debug(`[${tag}] Order kept @ $${order!.price.toFixed(2)}`);
+        return;
+      }
+
+      this.logger.info(`[${tag}] ${quote ? quote.replaceReason : 'No position to unwind'}, canceling ${order!.orderId}...`);
+      if (await market.orderManager.cancelOrder(order!.orderId)) {
+        this.state.stats.ordersCanceled++;
+      }
+    }
+    market.state.unwindOrder = null;
+
+    if (!quote) {
+      return;
+    }
+
+    const price = market.orderManager.calculateOrderPrice(quote.side, market.state.markPrice, quote.distanceBp);
+    const newOrder = await market.orderManager.placeOrder(quote.side, quote.size, price, true);
+    if (newOrder) {
+      market.state.unwindOrder = newOrder;
+      this.state.stats.ordersPlaced++;
+      this.logger.info(`[${tag}] Reduce-only ${quote.side.toUpperCase()} ${quote.size} ${this.unit(market)} placed: ${newOrder.orderId} @ $${newOrder.price.toFixed(2)}`);
+    }
+  }
 
-      // Check sell order
-      if (this.state.sellOrder && this.state.sellOrder.status === 'OPEN') {
-        const distance = this.markPrice
-          .minus(this.state.sellOrder.price)
-          .abs()
-          .div(this.state.sellOrder.price)
-          .mul(10000);
-
-        // Replace if too close (risk of fill) or too far (no points)
-        if (distance.lt(new Decimal(minDistanceBp))) {
-          this.logger.info(`[SELL] Too close to mark price (${distance.toFixed(2)} bp < ${minDistanceBp} bp), canceling and replacing...`);
-          await this.replaceOrder('sell');
-        } else if (distance.gt(new Decimal(maxDistanceBp))) {
-          this.logger.info(`[SELL] Too far from mark price (${distance.toFixed(2)} bp > ${maxDistanceBp} bp), canceling and replacing...`);
-          await this.replaceOrder('sell');
+  /**
+   * Position for the check loop: kept up to date by the position and order streams,
+   * reconciled with REST every positionReconcileSec and after reconnects
+   */
+  private async getCheckPosition(market: MarketContext): Promise<Decimal> {
+    if (Date.now() - market.positionCheckedAt < this.trading.positionReconcileSec * 1000) {
+      this.state.stats.positionQueriesSaved++;
+      return market.state.position;
+    }
+
+    const local = market.state.position;
+    const position = await this.queryPosition(market);
+    if (!position.eq(local)) {
+      this.logger.warn(`[${market.symbol}] Position reconciled: tracked ${local}, exchange ${position} ${this.unit(market)}`);
+    }
+    return position;
+  }
+
+  /**
+   * Query the position over REST and track it
+   */
+  private async queryPosition(market: MarketContext): Promise<Decimal> {
+    const position = await market.orderManager.getCurrentPosition();
+    this.state.stats.positionQueries++;
+    market.positionCheckedAt = Date.now();
+    this.trackPosition(market, position);
+    return position;
+  }
+
+  /**
+   * Update the tracked position and when it was opened (for the inventory age limit)
+   */
+  private trackPosition(market: MarketContext, position: Decimal): void {
+    market.state.position = position;
+
+    if (position.abs().lt(new Decimal('0.00001'))) {
+      market.state.positionSince = null;
+    } else if (market.state.positionSince === null) {
+      market.state.positionSince = Date.now();
+    }
+  }
+
+  /**
+   * Why a position must be closed with a market order, or null if it may be held
+   * Without inventory mode every position is closed
+   */
+  private getForceCloseReason(market: MarketContext, position: Decimal): string | null {
+    if (position.abs().lt(new Decimal('0.00001'))) {
+      return null;
+    }
+
+    const inventory = market.config.inventory;
+    if (!inventory.enabled) {
+      return 'Inventory mode off';
+    }
+    if (position.abs().gt(inventory.maxPosition)) {
+      return `Position ${position.abs()} above max ${inventory.maxPosition}`;
+    }
+
+    const since = market.state.positionSince;
+    if (since !== null && Date.now() - since > inventory.maxAgeSec * 1000) {
+      return `Position held longer than ${inventory.maxAgeSec}s`;
+    }
+
+    return null;
+  }
+
+  /**
+   * Refresh volatility and per-level target distances in market state
+   */
+  private updateTargetDistances(market: MarketContext): void {
+    market.state.volatilityBp = market.volatility.getVolatilityBp();
+    const extraBp = this.breaker.getState().extraDistanceBp;
+    market.state.targetDistancesBp = market.levels.map(level =>
+      Math.min(level.maxDistanceBp, market.volatility.getTargetDistanceBp(level) + extraBp)
+    );
+  }
+
+  /**
+   * Build the strategy input for a market
+   */
+  private getSnapshot(market: MarketContext): MarketSnapshot {
+    return {
+      symbol: market.symbol,
+      config: market.config,
+      levels: market.levels,
+      markPrice: market.state.markPrice,
+      lastPrice: market.lastPrice,
+      bid: market.spreadBid,
+      ask: market.spreadAsk,
+      position: market.state.position,
+      buyOrders: [...market.state.buyOrders],
+      sellOrders: [...market.state.sellOrders],
+      unwindOrder: market.state.unwindOrder,
+      targetDistancesBp: market.state.targetDistancesBp,
+      paused: market.state.phase === 'PAUSED_VOLATILITY'
+    };
+  }
+
+  /**
+   * Replace the order on one ladder level with a desired quote
+   */
+  private async replaceOrder(market: MarketContext, level: QuoteLevel, quote: DesiredQuote): Promise<void> {
+    const side = quote.side;
+    const tag = this.levelTag(market, side, level);
+
+    try {
+      const order = this.getOrderSlots(market, side)[level.index];
+
+      if (order) {
+        this.logger.info(`[${tag}] Current order: ${order.price.toFixed(2)} (Mark: ${market.state.markPrice.toFixed(2)})`);
+
+        // Cancel existing order
+        this.logger.info(`[${tag}] Canceling order ${order.orderId}...`);
+        const canceled = await market.orderManager.cancelOrder(order.orderId);
+
+        if (canceled) {
+          this.state.stats.ordersCanceled++;
+          this.logger.info(`[${tag}] Order canceled successfully`);
         } else {
-          this.logger.debug(`[SELL] Order in valid range: ${distance.toFixed(2)} bp [${minDistanceBp}-${maxDistanceBp} bp]`);
+          this.logger.warn(`[${tag}] Order cancel failed (may already be filled)`);
         }
+        this.getOrderSlots(market, side)[level.index] = null;
+      }
+
+      // Place new order
+      const newOrder = await this.placeQuote(market, quote);
+
+      if (newOrder) {
+        this.logger.info(`[${tag}] New order placed: ${newOrder.orderId} @ $${newOrder.price.toFixed(2)}`);
       }
 
+      this.emit('order_replaced', { symbol: market.symbol, side, level: level.index, newOrder });
+      this.logger.info(`✅ [${tag}] Order replaced successfully`);
+
     } catch (error: any) {
-      this.logger.error(`Error in check and replace: ${error.message}`);
+      this.logger.error(`Error replacing ${tag} order: ${error.message}`);
     }
   }
 
   /**
-   * Replace an order
-   * @param side Order side to replace
-   * @param useFreshPrice If true, fetch fresh mark price via REST API before replacing
+   * Fetch fresh mark price via REST API
+   * This is important after fills to ensure we don't quote off a stale price
    */
-  private async replaceOrder(side: OrderSide, useFreshPrice: boolean = false): Promise<void> {
+  private async refreshMarkPrice(market: MarketContext): Promise<void> {
     try {
-      const order = side === 'buy' ? this.state.buyOrder : this.state.sellOrder;
-
-      if (!order) {
-        // This can happen when the order was cleared during fill processing
-        // Just place a new order instead of replacing
-        this.logger.info(`[${side.toUpperCase()}] No existing order to replace, placing new order...`);
-
-        if (useFreshPrice) {
-          const freshPrice = await this.client.getMarkPrice(this.config.trading.symbol);
-          this.logger.info(`[${side.toUpperCase()}] Fresh mark price: $${freshPrice.toFixed(2)}`);
-          this.markPrice = freshPrice;
-          this.state.markPrice = freshPrice;
-        }
+      const freshPrice = await this.client.getMarkPrice(market.symbol);
+      this.logger.info(`[${market.symbol}] Fresh mark price: $${freshPrice.toFixed(2)} (cached: $${market.state.markPrice.toFixed(2)})`);
+      market.state.markPrice = freshPrice;
+    } catch (error: any) {
+      this.logger.warn(`[${market.symbol}] Failed to fetch fresh mark price, using cached: ${error.message}`);
+    }
+  }
 
-        const newPrice = this.orderManager.calculateOrderPrice(
-          side,
-          this.markPrice,
-          this.config.trading.orderDistanceBp
-        );
-
-        const newOrder = await this.orderManager.placeOrder(
-          side,
-          new Decimal(this.config.trading.orderSizeBtc),
-          newPrice
-        );
-
-        if (newOrder) {
-          if (side === 'buy') {
-            this.state.buyOrder = newOrder;
-          } else {
-            this.state.sellOrder = newOrder;
+  /**
+   * Handle order filled / partially filled event
+   * Fill quantities are cumulative, so only the part not handled by an earlier update is closed.
+   * Updates arriving while a close runs are queued (the latest per order) and closed right after it;
+   * a fill during the cooldown starts a new close and cooldown
+   */
+  private async handleOrderFilled(market: MarketContext, data: WSOrderData): Promise<void> {
+    const orderId = data.clientOrderId || data.orderId.toString();
+    const phase: LifecyclePhase = market.state.phase;
+
+    if (phase === 'UNWINDING') {
+      market.pendingFills.set(orderId, data);
+      this.logger.warn(`⚠️ [${market.symbol}] Fill of ${orderId} (${data.fillQty || data.qty} filled) arrived during a close, queued`);
+      return;
+    }
+    if (!FILL_PHASES.includes(phase)) {
+      this.logger.warn(`⚠️ [${market.symbol}] Fill arrived in phase ${phase}, skipping`);
+      // The tracked position misses this fill: check it over REST on the next check
+      market.positionCheckedAt = 0;
+      return;
+    }
+
+    try {
+      let next: WSOrderData | undefined = data;
+      let cooldown = false;
+      market.isClosing = true;
+      try {
+        while (next) {
+          const outcome = await this.closeFill(market, next);
+          if (outcome === 'failed') {
+            return;
+          }
+          cooldown = cooldown || outcome === 'closed';
+
+          // Stop took over; a halted market still closes the queued fills
+          if (market.state.phase !== 'UNWINDING' && market.state.phase !== 'HALTED') {
+            return;
           }
-          this.state.stats.ordersPlaced++;
-          this.logger.info(`[${side.toUpperCase()}] New order placed: ${newOrder.orderId} @ $${newOrder.price.toFixed(2)}`);
+          next = this.takePendingFill(market);
         }
+      } finally {
+        market.isClosing = false;
+      }
+
+      // A halt during the close already moved this market to HALTED
+      if (market.state.phase === 'HALTED') {
         return;
       }
 
-      // If useFreshPrice is true, fetch current mark price via REST API
-      // This is important after fills to ensure we use the latest price
-      let priceForCalc = this.markPrice;
-      if (useFreshPrice) {
-        try {
-          const freshPrice = await this.client.getMarkPrice(this.config.trading.symbol);
-          this.logger.info(`[${side.toUpperCase()}] Fresh mark price: $${freshPrice.toFixed(2)} (cached: $${this.markPrice.toFixed(2)})`);
-          priceForCalc = freshPrice;
-          // Update cached mark price
-          this.markPrice = freshPrice;
-          this.state.markPrice = freshPrice;
-        } catch (error: any) {
-          this.logger.warn(`[${side.toUpperCase()}] Failed to fetch fresh mark price, using cached: ${error.message}`);
-        }
+      // Held in inventory or remainder kept resting: quote again right away and leave
+      // confirming the position to the check loop
+      if (!cooldown) {
+        market.positionCheckedAt = 0;
+        this.setPhase(market, this.getRestingPhase(), 'fill handled', 'UNWINDING');
+        await this.syncQuotes(market);
+        return;
       }
 
-      this.logger.info(`[${side.toUpperCase()}] Current order: ${order.price.toFixed(2)} (Mark: ${priceForCalc.toFixed(2)})`);
+      this.setPhase(market, 'COOLDOWN', 'fill closed', 'UNWINDING');
 
-      // Cancel existing order
-      this.logger.info(`[${side.toUpperCase()}] Canceling order ${order.orderId}...`);
-      const canceled = await this.orderManager.cancelOrder(order.orderId);
+      // Wait before replacing order to let market stabilize
+      // This helps avoid repeat fills during rapid price movements; the breaker lengthens it as fills pile up
+      const cooldownSec = this.breaker.getState().cooldownSec;
+      const cooldownUntil = Date.now() + cooldownSec * 1000;
+      market.cooldownUntil = cooldownUntil;
+      this.saveState();
+      this.logger.warn(`⏳ Waiting ${cooldownSec} seconds for market to stabilize before replacing order...`);
+      await new Promise(resolve => setTimeout(resolve, cooldownSec * 1000));
 
-      if (canceled) {
-        this.state.stats.ordersCanceled++;
-        this.logger.info(`[${side.toUpperCase()}] Order canceled successfully`);
-      } else {
-        this.logger.warn(`[${side.toUpperCase()}] Order cancel failed (may already be filled)`);
+      // Stop, halt, a position close or a fill during the wait (with a cooldown of its own) may have taken over
+      if (market.state.phase !== 'COOLDOWN' || market.cooldownUntil !== cooldownUntil) {
+        this.logger.warn(`Phase changed to ${market.state.phase} during fill processing, skipping order replacement`);
+        return;
       }
 
-      // Calculate new price
-      const newPrice = this.orderManager.calculateOrderPrice(
-        side,
-        priceForCalc,
-        this.config.trading.orderDistanceBp
-      );
-
-      this.logger.info(`[${side.toUpperCase()}] New price: $${newPrice.toFixed(2)}`);
-
-      // Place new order
-      const newOrder = await this.orderManager.placeOrder(
-        side,
-        new Decimal(this.config.trading.orderSizeBtc),
-        newPrice
-      );
+      // Verify position is still zero before placing new orders
+      const currentPosition = await this.queryPosition(market);
+      if (currentPosition.abs().gte(new Decimal('0.00001'))) {
+        this.logger.error(`⚠️⚠️⚠️ [${market.symbol}] NON-ZERO POSITION after fill processing: ${currentPosition} ${this.unit(market)}`);
+        await this.closeDetectedPosition(market, currentPosition);
+        return;
+      }
 
-      if (newOrder) {
-        if (side === 'buy') {
-          this.state.buyOrder = newOrder;
-        } else {
-          this.state.sellOrder = newOrder;
-        }
-        this.state.stats.ordersPlaced++;
-        this.logger.info(`[${side.toUpperCase()}] New order placed: ${newOrder.orderId} @ $${newOrder.price.toFixed(2)}`);
+      if (!this.setPhase(market, this.getRestingPhase(), 'cooldown over', 'COOLDOWN')) {
+        return;
       }
 
-      this.emit('order_replaced', { side, newOrder });
-      this.logger.info(`✅ [${side.toUpperCase()}] Order replaced successfully`);
+      // Requote the filled slot with fresh mark price from REST API
+      // IMPORTANT: Use fresh mark price from REST API to avoid placing orders at stale prices
+      this.logger.warn(`🔄 Requoting ${market.symbol} with fresh mark price...`);
+      await this.refreshMarkPrice(market);
+      this.updateTargetDistances(market);
+      await this.syncQuotes(market);
 
     } catch (error: any) {
-      this.logger.error(`Error replacing ${side} order: ${error.message}`);
+      this.logger.error(`[${market.symbol}] Error handling order filled: ${error.message}`);
+      console.error(error.stack);
+      // Don't get stuck: the check loop verifies the position again once quoting
+      market.pendingFills.clear();
+      if (market.state.phase === 'UNWINDING' || market.state.phase === 'COOLDOWN') {
+        this.setPhase(market, this.getRestingPhase(), 'error handling fill');
+      }
     }
   }
 
   /**
-   * Handle order filled event
+   * Count one fill update and close (or hold) the part not handled yet
+   * Moves the market to UNWINDING; handleOrderFilled decides where it goes next
+   * - none: nothing new in this update
+   * - closed: closed, the filled order is gone (cooldown before requoting)
+   * - held: kept as inventory within limits
+   * - kept: closed, the remainder keeps resting (keep policy)
+   * - failed: the close failed and the bot was stopped
    */
-  private async handleOrderFilled(data: WSOrderData): Promise<void> {
-    // Prevent concurrent fill processing to avoid race conditions
-    if (this.isProcessingFill) {
-      this.logger.warn('⚠️ Fill already being processed, skipping duplicate event');
-      return;
+  private async closeFill(market: MarketContext, data: WSOrderData): Promise<'none' | 'closed' | 'held' | 'kept' | 'failed'> {
+    const side = data.side;
+    const price = new Decimal(data.avgFillPrice || data.price);
+    const orderId = data.clientOrderId || data.orderId.toString();
+    const unit = this.unit(market);
+    const partial = data.status === 'PARTIALLY_FILLED';
+    const keepRemainder = partial && market.config.partialFillPolicy === 'keep';
+
+    const cumulative = new Decimal(data.fillQty || (partial ? 0 : data.qty));
+    const qty = cumulative.minus(market.handledFills.get(orderId) ?? 0);
+    if (partial) {
+      market.handledFills.set(orderId, cumulative);
+    } else {
+      market.handledFills.delete(orderId);
     }
 
-    this.isProcessingFill = true;
-
-    try {
-      const side = data.side;
-      const qty = new Decimal(data.fillQty);
-      const price = new Decimal(data.avgFillPrice || data.price);
-      const orderId = data.clientOrderId || data.orderId.toString();
+    if (qty.lte(0)) {
+      this.logger.debug(`[${market.symbol}] Fill of ${orderId} already handled (${cumulative} ${unit})`);
+      return 'none';
+    }
+    if (market.state.phase !== 'UNWINDING') {
+      this.setPhase(market, 'UNWINDING', `${side} ${partial ? 'partial fill' : 'fill'} of ${qty} ${unit}`);
+    }
 
-      this.logger.warn(`⚠️⚠️⚠️ ORDER FILLED ⚠️⚠️⚠️`);
-      this.logger.warn(`  Side: ${side.toUpperCase()}`);
-      this.logger.warn(`  Qty: ${qty} BTC`);
-      this.logger.warn(`  Price: $${price.toFixed(2)}`);
-      this.logger.warn(`  Order ID: ${data.orderId}`);
+    this.logger.warn(partial ? `⚠️⚠️⚠️ ORDER PARTIALLY FILLED ⚠️⚠️⚠️` : `⚠️⚠️⚠️ ORDER FILLED ⚠️⚠️⚠️`);
+    this.logger.warn(`  Symbol: ${market.symbol}`);
+    this.logger.warn(`  Side: ${side.toUpperCase()}`);
+    this.logger.warn(`  Qty: ${qty} ${unit}`);
+    if (partial) {
+      this.logger.warn(`  Filled so far: ${cumulative} / ${data.qty} ${unit}`);
+    }
+    this.logger.warn(`  Price: $${price.toFixed(2)}`);
+    this.logger.warn(`  Order ID: ${data.orderId}`);
 
+    if (partial) {
+      this.state.stats.partialFills++;
+    } else {
       this.state.stats.ordersFilled++;
-      this.state.stats.lastTradeTime = Date.now();
+    }
+    this.state.stats.lastTradeTime = Date.now();
+    this.saveState();
 
-      // Update position
-      if (side === 'buy') {
-        this.state.position = this.state.position.plus(qty);
-      } else {
-        this.state.position = this.state.position.minus(qty);
-      }
+    // Widen quotes for a while after being filled
+    market.volatility.recordFill();
+    this.updateTargetDistances(market);
 
-      this.logger.warn(`Current Position: ${this.state.position.toFixed(4)} BTC`);
+    // Update position (a fill held as inventory starts its age here)
+    this.trackPosition(market, side === 'buy' ? market.state.position.plus(qty) : market.state.position.minus(qty));
 
-      // Send Telegram notification
-      if (telegram.isEnabled()) {
-        await telegram.trade(side, qty.toString(), price.toFixed(2));
+    this.logger.warn(`Current Position: ${market.state.position.toFixed(4)} ${unit}`);
+
+    // Send Telegram notification
+    if (telegram.isEnabled()) {
+      await telegram.trade(market.symbol, side, qty.toString(), price.toFixed(2));
+    }
+
+    // Stop the remainder from filling further while the filled part is handled
+    if (partial && !keepRemainder) {
+      await this.cancelRemainder(market, orderId);
+    }
+
+    // Unwind fills reduce inventory, they don't count towards the circuit breaker
+    const unwindFill = market.state.unwindOrder?.orderId === orderId;
+    if (unwindFill && !keepRemainder) {
+      market.state.unwindOrder = null;
+    }
+
+    // Inventory mode: hold the position while it stays within limits and let the strategy work it off
+    let closeQty = qty;
+    let closeSide: OrderSide = side === 'buy' ? 'sell' : 'buy';
+    if (market.config.inventory.enabled) {
+      const position = await this.queryPosition(market);
+
+      const closeReason = this.getForceCloseReason(market, position);
+      if (!closeReason) {
+        this.logger.warn(`📦 Holding position ${position} ${unit} (max ${market.config.inventory.maxPosition} ${unit})`);
+        if (!keepRemainder) {
+          this.clearFilledOrder(market, orderId);
+        }
+        if (!unwindFill) {
+          this.breaker.recordFill(side, 0);
+          await this.checkCircuitBreaker();
+        }
+        this.emit('trade_executed', { symbol: market.symbol, side, qty, price: price.toString() });
+        return 'held';
       }
 
-      // Close position immediately
-      this.logger.warn(`🔄 Closing position immediately...`);
-      const closeSide = side === 'buy' ? 'sell' : 'buy';
-      const closed = await this.orderManager.closePosition(qty, closeSide);
+      this.logger.warn(`Inventory limit breached: ${closeReason}`);
+      closeQty = position.abs();
+      closeSide = position.gt(0) ? 'sell' : 'buy';
 
-      if (!closed) {
-        this.logger.error('❌ Failed to close position!');
-        await telegram.error('Failed to close position!');
-        // Stop the bot to prevent further damage
-        await this.stop();
-        return;
+      // The reduce-only unwind order would race the market close
+      if (market.state.unwindOrder) {
+        await market.orderManager.cancelOrder(market.state.unwindOrder.orderId);
+        market.state.unwindOrder = null;
       }
+    }
 
-      this.logger.warn(`✅ Position closed successfully`);
+    // Close position immediately
+    this.logger.warn(`🔄 Closing position immediately...`);
+    const closed = await market.orderManager.closePosition(closeQty, closeSide);
 
-      // Update position back to zero
-      this.state.position = Decimal(0);
+    if (!closed) {
+      this.logger.error(`❌ [${market.symbol}] Failed to close position!`);
+      await telegram.error(`[${market.symbol}] Failed to close position!`);
+      // Stop the bot to prevent further damage
+      await this.stop();
+      return 'failed';
+    }
 
-      // Clear the filled order from state to prevent trying to replace it later
-      // Also clear the opposite side since all orders should have been canceled before closing
-      if (side === 'buy') {
-        if (this.state.buyOrder && this.state.buyOrder.orderId === orderId) {
-          this.logger.warn(`Clearing filled buy order from state: ${orderId}`);
-          this.state.buyOrder = null;
-        }
+    this.logger.warn(`✅ Position closed successfully`);
+
+    // Take the closed size off the tracked position instead of assuming zero
+    this.trackPosition(market, market.state.position.plus(closeSide === 'sell' ? closeQty.neg() : closeQty));
+    market.positionCheckedAt = 0;
+
+    if (!unwindFill) {
+      this.breaker.recordFill(side, await this.estimateCloseLoss(market, side, qty, price));
+      await this.checkCircuitBreaker();
+    }
+    this.emit('trade_executed', { symbol: market.symbol, side, qty, price: price.toString() });
+
+    if (keepRemainder) {
+      this.logger.warn(`Keeping remaining ${new Decimal(data.qty).minus(cumulative)} ${unit} of ${orderId} resting`);
+      return 'kept';
+    }
+
+    // Clear the filled order from state to prevent trying to replace it later
+    this.clearFilledOrder(market, orderId);
+    return 'closed';
+  }
+
+  /**
+   * Next fill update queued during a close, if any
+   */
+  private takePendingFill(market: MarketContext): WSOrderData | undefined {
+    const [orderId, data] = market.pendingFills.entries().next().value ?? [];
+    if (orderId !== undefined) {
+      market.pendingFills.delete(orderId);
+    }
+    return data;
+  }
+
+  /**
+   * Count fills queued during a position close as handled by it
+   * The closed size came from a position snapshot that may or may not include them, so the
+   * caller asks the exchange what is left instead of closing them one by one
+   */
+  private settlePendingFills(market: MarketContext): void {
+    for (const [orderId, data] of market.pendingFills) {
+      const partial = data.status === 'PARTIALLY_FILLED';
+      const cumulative = new Decimal(data.fillQty || (partial ? 0 : data.qty));
+      const qty = cumulative.minus(market.handledFills.get(orderId) ?? 0);
+      if (partial) {
+        market.handledFills.set(orderId, cumulative);
       } else {
-        if (this.state.sellOrder && this.state.sellOrder.orderId === orderId) {
-          this.logger.warn(`Clearing filled sell order from state: ${orderId}`);
-          this.state.sellOrder = null;
+        market.handledFills.delete(orderId);
+      }
+      if (qty.lte(0)) {
+        continue;
+      }
+
+      this.logger.warn(`[${market.symbol}] ${data.side.toUpperCase()} fill of ${qty} ${this.unit(market)} on ${orderId} arrived during the close`);
+      if (partial) {
+        this.state.stats.partialFills++;
+      } else {
+        this.state.stats.ordersFilled++;
+      }
+      this.state.stats.lastTradeTime = Date.now();
+      if (market.state.unwindOrder?.orderId !== orderId) {
+        this.breaker.recordFill(data.side, 0);
+      }
+      if (!partial || market.config.partialFillPolicy !== 'keep') {
+        this.clearFilledOrder(market, orderId);
+      }
+    }
+    market.pendingFills.clear();
+  }
+
+  /**
+   * Estimated loss of closing a fill, taking mark right after the close as exit price
+   */
+  private async estimateCloseLoss(market: MarketContext, side: OrderSide, qty: Decimal, fillPrice: Decimal): Promise<number> {
+    try {
+      const exitPrice = await this.client.getMarkPrice(market.symbol);
+      const pnl = side === 'buy' ? exitPrice.minus(fillPrice) : fillPrice.minus(exitPrice);
+      return pnl.mul(qty).neg().toNumber();
+    } catch (error: any) {
+      this.logger.warn(`[${market.symbol}] Could not estimate close loss: ${error.message}`);
+      return 0;
+    }
+  }
+
+  /**
+   * Apply circuit breaker level changes: retarget distances, or halt the whole account
+   */
+  private async checkCircuitBreaker(): Promise<void> {
+    const breaker = this.breaker.getState();
+    if (breaker.level === this.breakerLevel) {
+      return;
+    }
+
+    const previous = this.breakerLevel;
+    this.breakerLevel = breaker.level;
+    const summary = `${breaker.fillsInWindow} fills, $${breaker.lossInWindowUsd.toFixed(2)} close loss in window`;
+
+    if (breaker.level === 'halted') {
+      this.logger.error(`🛑 Circuit breaker HALT: ${breaker.haltReason} (${summary})`);
+      await telegram.error(`[${this.accountId}] Circuit breaker halted the account: ${breaker.haltReason}. Reset it with scripts/reset-breaker.ts and restart to resume.`);
+
+      for (const market of this.markets.values()) {
+        // A market already unwinding finishes its own close
+        const closing = market.state.phase === 'UNWINDING';
+        this.setPhase(market, 'HALTED', breaker.haltReason ?? 'circuit breaker');
+        await this.cancelAllOrders(market);
+        if (!closing) {
+          // Close what the exchange reports: the tracked position misses fills that were skipped
+          market.positionCheckedAt = 0;
+          await this.checkHaltedMarket(market);
         }
       }
 
-      // Wait 10 seconds before replacing order to let market stabilize
-      // This helps avoid repeat fills during rapid price movements
-      this.logger.warn(`⏳ Waiting 10 seconds for market to stabilize before replacing order...`);
-      await new Promise(resolve => setTimeout(resolve, 10000));
+      // Save the halt right away, a restart must not lose it
+      this.saveState();
+      this.emit('circuit_breaker', breaker);
+      return;
+    }
 
-      // Check if bot is still running and hasn't been stopped during the wait
-      if (!this.state.isRunning || this.stopRequested) {
-        this.logger.warn('Bot stopped during fill processing, skipping order replacement');
-        return;
+    const sides = breaker.blockedSides.length > 0 ? `, not quoting ${breaker.blockedSides.join('/')}` : '';
+    this.logger.warn(`⚡ Circuit breaker: ${previous} → ${breaker.level} (${summary}${sides})`);
+    telegram.warning(`[${this.accountId}] Circuit breaker: ${previous} → ${breaker.level} (${summary}${sides})`);
+
+    for (const market of this.markets.values()) {
+      this.updateTargetDistances(market);
+    }
+    this.emit('circuit_breaker', breaker);
+  }
+
+  /**
+   * Keep a halted market flat: retry canceling orders that survived the halt and close any
+   * position found over REST (fills skipped while halted have the position checked right away)
+   */
+  private async checkHaltedMarket(market: MarketContext): Promise<void> {
+    // Wait for the running close; it leaves the position to be checked on the next tick
+    if (market.isClosing) {
+      return;
+    }
+
+    try {
+      if (this.hasTrackedOrders(market)) {
+        await this.cancelAllOrders(market);
       }
 
-      // Verify position is still zero before placing new orders
-      const currentPosition = await this.orderManager.getCurrentPosition();
-      if (currentPosition.abs().gte(new Decimal('0.00001'))) {
-        this.logger.error(`⚠️⚠️⚠️ NON-ZERO POSITION after fill processing: ${currentPosition} BTC`);
-        await this.closeDetectedPosition(currentPosition);
-        return;
+      const position = await this.getCheckPosition(market);
+      if (!position.isZero()) {
+        await this.closeDetectedPosition(market, position, 'Circuit breaker halt');
       }
+    } catch (error: any) {
+      this.logger.error(`[${market.symbol}] Error checking halted market: ${error.message}`);
+    }
+  }
 
-      // Replace the filled order with fresh mark price from REST API
-      // IMPORTANT: Use fresh mark price from REST API to avoid placing orders at stale prices
-      this.logger.warn(`🔄 Replacing ${side.toUpperCase()} order with fresh mark price...`);
-      await this.replaceOrder(side === 'buy' ? 'buy' : 'sell', true);
+  /**
+   * Pause quoting outside trading windows / during blackouts and resume afterwards
+   */
+  private async checkSchedule(): Promise<void> {
+    const status = this.schedule.getStatus();
+    if (status.active !== this.isPausedBySchedule) {
+      return;
+    }
 
-      this.emit('trade_executed', { side, qty, price: price.toString() });
+    const next = this.schedule.getStatus(Date.now(), true).nextChange;
+    const nextText = next ? ` until ${new Date(next).toISOString()}` : '';
 
-    } catch (error: any) {
-      this.logger.error(`Error handling order filled: ${error.message}`);
-      console.error(error.stack);
-    } finally {
-      // Always clear the flag, even if an error occurred
-      this.isProcessingFill = false;
+    if (!status.active) {
+      this.isPausedBySchedule = true;
+      this.logger.warn(`⏸️ ${status.reason}. Canceling all orders and pausing${nextText}...`);
+      telegram.info(`⏸️ [${this.accountId}] ${status.reason}. Pausing orders${nextText}.`);
+
+      // Only quoting markets pause here: one handling a fill or a close keeps its orders (e.g. the
+      // reduce-only close) and pauses once it is done (see getRestingPhase)
+      for (const market of this.markets.values()) {
+        const from = market.state.phase;
+        if (QUOTE_PHASES.includes(from) && this.setPhase(market, 'PAUSED_SCHEDULE', status.reason ?? 'schedule', from)) {
+          await this.cancelAllOrders(market);
+        }
+      }
+      this.emit('schedule_changed', this.schedule.getStatus());
+      return;
+    }
+
+    this.isPausedBySchedule = false;
+    this.logger.info(`▶️ Trading window open. Resuming orders${next ? ` (next pause at ${new Date(next).toISOString()})` : ''}...`);
+    telegram.info(`▶️ [${this.accountId}] Trading window open. Resuming orders.`);
+
+    for (const market of this.markets.values()) {
+      if (this.setPhase(market, 'QUOTING', 'trading window open', 'PAUSED_SCHEDULE')) {
+        await this.placeInitialOrders(market);
+      }
+    }
+    this.emit('schedule_changed', this.schedule.getStatus());
+  }
+
+  /**
+   * Cancel the unfilled remainder of a partially filled order and free its slot
+   */
+  private async cancelRemainder(market: MarketContext, orderId: string): Promise<void> {
+    this.logger.warn(`[${market.symbol}] Canceling remainder of partially filled order ${orderId}...`);
+    if (await market.orderManager.cancelOrder(orderId)) {
+      this.state.stats.ordersCanceled++;
+    }
+
+    this.clearFilledOrder(market, orderId);
+    if (market.state.unwindOrder?.orderId === orderId) {
+      market.state.unwindOrder = null;
+    }
+  }
+
+  /**
+   * Clear a filled order from its ladder slot
+   */
+  private clearFilledOrder(market: MarketContext, orderId: string): void {
+    const filled = this.findTrackedOrder(market, orderId);
+    if (filled) {
+      this.logger.warn(`Clearing filled ${this.levelTag(market, filled.side, filled.level)} order from state: ${orderId}`);
+      this.getOrderSlots(market, filled.side)[filled.level.index] = null;
     }
   }
 
   /**
    * Ensure zero position
+   * In inventory mode an existing position within limits is kept (its age counts from now)
    */
-  private async ensureZeroPosition(): Promise<void> {
+  private async ensureZeroPosition(market: MarketContext): Promise<void> {
     try {
-      const position = await this.client.getPosition(this.config.trading.symbol);
+      const position = await this.client.getPosition(market.symbol);
+      const unit = this.unit(market);
+      this.state.stats.positionQueries++;
+      market.positionCheckedAt = Date.now();
+
+      this.trackPosition(market, position);
+      // Same position as before the restart: keep its age for the inventory age limit
+      const restored = market.restored;
+      if (restored && restored.positionSince !== null && position.eq(restored.position)) {
+        market.state.positionSince = restored.positionSince;
+      }
+      if (position.abs().gt(0) && !this.getForceCloseReason(market, position)) {
+        this.logger.info(`📦 [${market.symbol}] Keeping existing position ${position} ${unit} within inventory limits`);
+        return;
+      }
 
       if (position.abs().gt(0)) {
-        this.logger.warn(`Existing position detected: ${position} BTC`);
-        await telegram.warning(`Existing position: ${position} BTC, closing...`);
+        this.logger.warn(`[${market.symbol}] Existing position detected: ${position} ${unit}`);
+        await telegram.warning(`[${market.symbol}] Existing position: ${position} ${unit}, closing...`);
 
         const side = position.gt(0) ? 'sell' : 'buy';
-        const closed = await this.orderManager.closePosition(position.abs(), side);
+        const closed = await market.orderManager.closePosition(position.abs(), side);
 
         if (closed) {
-          this.logger.info('✅ Existing position closed');
+          this.trackPosition(market, market.state.position.minus(position));
+          this.logger.info(`✅ [${market.symbol}] Existing position closed`);
         } else {
-          this.logger.error('Failed to close existing position!');
-          throw new Error('Failed to close existing position');
+          this.logger.error(`[${market.symbol}] Failed to close existing position!`);
+          throw new Error(`Failed to close existing ${market.symbol} position`);
         }
       }
 
     } catch (error: any) {
-      this.logger.error(`Error ensuring zero position: ${error.message}`);
+      this.logger.error(`[${market.symbol}] Error ensuring zero position: ${error.message}`);
       throw error;
     }
   }
 
+  /**
+   * Reload stats, points, breaker fills and per-market state saved by the previous run
+   */
+  private restoreState(): void {
+    const saved = this.store?.load();
+    if (!saved) {
+      return;
+    }
+
+    this.state.stats = { ...this.state.stats, ...saved.stats };
+    this.startTime = saved.stats.startTime;
+    this.points.restore(saved.points);
+
+    // A halt stays latched across restarts until it is reset (scripts/reset-breaker.ts);
+    // breakerLevel stays normal so that start() applies it once positions are checked
+    this.breaker.restoreFills(saved.breakerFills);
+    if (saved.breakerHalted) {
+      this.breaker.restoreHalt(saved.breakerHaltReason ?? 'halted before restart');
+      this.logger.error(`🛑 Previous run was halted by the circuit breaker (${saved.breakerHaltReason ?? 'no reason saved'}); staying halted until reset`);
+    } else {
+      this.breakerLevel = this.breaker.getState().level;
+    }
+
+    for (const [symbol, marketState] of Object.entries(saved.markets)) {
+      const market = this.markets.get(symbol);
+      if (market) {
+        market.restored = marketState;
+      }
+    }
+
+    const ageSec = Math.round((Date.now() - saved.savedAt) / 1000);
+    this.logger.info(`Restored state from ${this.store!.getFile()} (saved ${ageSec}s ago, ${saved.stats.ordersFilled} fills, ${saved.points.total.toFixed(2)} points)`);
+  }
+
+  /**
+   * Write the current state to the store (no-op when disabled)
+   */
+  private saveState(): void {
+    if (!this.store) {
+      return;
+    }
+
+    const orderId = (order: OrderInfo | null) => order && order.status === 'OPEN' ? order.orderId : null;
+    const markets: Record<string, PersistedMarketState> = {};
+    for (const [symbol, market] of this.markets) {
+      markets[symbol] = {
+        buyOrderIds: market.state.buyOrders.map(orderId),
+        sellOrderIds: market.state.sellOrders.map(orderId),
+        unwindOrderId: orderId(market.state.unwindOrder),
+        position: market.state.position.toString(),
+        positionSince: market.state.positionSince,
+        cooldownUntil: market.state.phase === 'COOLDOWN' ? market.cooldownUntil : null
+      };
+    }
+
+    const state: PersistedBotState = {
+      version: STATE_VERSION,
+      savedAt: Date.now(),
+      stats: this.state.stats,
+      points: this.points.getStats(),
+      breakerFills: this.breaker.getFills(),
+      breakerHalted: this.breaker.isHalted(),
+      breakerHaltReason: this.breaker.getState().haltReason,
+      markets
+    };
+    this.store.save(state);
+  }
+
+  /**
+   * Move a market to another phase if the transition is allowed (and it is in `from`, when given)
+   * Returns false if rejected, so concurrent paths can bail out instead of acting twice
+   */
+  private setPhase(market: MarketContext, to: LifecyclePhase, reason: string, from?: LifecyclePhase): boolean {
+    const current = market.state.phase;
+    if ((from && current !== from) || !canTransition(current, to)) {
+      this.logger.debug(`[${market.symbol}] Rejected phase change ${current} → ${to} (${reason})`);
+      return false;
+    }
+
+    market.state.phase = to;
+    market.state.phaseSince = Date.now();
+    this.logger.info(`[${market.symbol}] Phase: ${current} → ${to} (${reason})`);
+    this.emit('phase_changed', { symbol: market.symbol, from: current, to, reason });
+    return true;
+  }
+
+  /**
+   * Account-wide transitions (start, stop)
+   */
+  private setAllPhases(to: LifecyclePhase, reason: string): void {
+    for (const market of this.markets.values()) {
+      this.setPhase(market, to, reason);
+    }
+  }
+
+  /**
+   * Phase to return to after a fill or close has been handled
+   */
+  private getRestingPhase(): LifecyclePhase {
+    return this.isPausedBySchedule ? 'PAUSED_SCHEDULE' : 'QUOTING';
+  }
+
   /**
    * Get bot state
    */
   getState(): BotState {
-    return { ...this.state };
+    const markets: Record<string, MarketState> = {};
+    for (const [symbol, market] of this.markets) {
+      markets[symbol] = {
+        ...market.state,
+        buyOrders: [...market.state.buyOrders],
+        sellOrders: [...market.state.sellOrders],
+        targetDistancesBp: [...market.state.targetDistancesBp]
+      };
+    }
+
+    return {
+      ...this.state,
+      isRunning: this.isRunning(),
+      markets,
+      points: this.points.getStats(),
+      circuitBreaker: this.breaker.getState(),
+      schedule: this.schedule.getStatus(Date.now(), true)
+    };
   }
 
   /**
@@ -870,6 +1889,6 @@ export class MakerPointsBot extends EventEmitter {
    * Check if bot is running
    */
   isRunning(): boolean {
-    return this.state.isRunning;
+    return Array.from(this.markets.values()).some(market => RUNNING_PHASES.includes(market.state.phase));
   }
 }
@@ -1,6 +1,6 @@
 import Decimal from 'decimal.js';
 import { StandXClient } from '../api/standx-client';
-import { OrderInfo, OrderSide, OrderStatus } from '../types';
+import { ClosePolicy, OrderInfo, OrderSide, OrderTransport, PassiveCloseConfig } from '../types';
 import { log } from '../utils/logger';
 
 /**
@@ -9,13 +9,43 @@ import { log } from '../utils/logger';
  */
 export class OrderManager {
   private client: StandXClient;
-  private tickSize: Decimal;
   private symbol: string;
-
-  constructor(client: StandXClient, symbol: string) {
+  private closePolicy: ClosePolicy;
+  private passiveClose: PassiveCloseConfig | null;
+  private closeOrderIds: Set<string> = new Set();
+
+  constructor(
+    client: StandXClient,
+    symbol: string,
+    closePolicy: ClosePolicy = 'aggressive',
+    passiveClose: PassiveCloseConfig | null = null
+  ) {
     this.client = client;
     this.symbol = symbol;
-    this.tickSize = client.getTickSize();
+    this.closePolicy = closePolicy;
+    this.passiveClose = passiveClose;
+  }
+
+  /**
+   * Apply a reloaded close policy (used by the next close)
+   */
+  setClosePolicy(closePolicy: ClosePolicy, passiveClose: PassiveCloseConfig | null): void {
+    this.closePolicy = closePolicy;
+    this.passiveClose = passiveClose;
+  }
+
+  /**
+   * Get the symbol this manager trades
+   */
+  getSymbol(): string {
+    return this.symbol;
+  }
+
+  /**
+   * Base asset used as size unit in logs (e.g. BTC)
+   */
+  private get unit(): string {
+    return this.client.getContract(this.symbol)?.baseAsset || this.symbol.split('-')[0];
   }
 
   /**
@@ -32,21 +62,23 @@ export class OrderManager {
 
   /**
    * Place a new order
+   * transport overrides API_ORDER_TRANSPORT for this call
    */
   async placeOrder(
     side: OrderSide,
     qty: Decimal,
     price: Decimal,
     reduceOnly: boolean = false,
-    orderType: 'limit' | 'market' = 'limit'
+    orderType: 'limit' | 'market' = 'limit',
+    transport?: OrderTransport
   ): Promise<OrderInfo | null> {
     try {
       const roundedPrice = this.roundToTickSize(price);
 
       if (orderType === 'market') {
-        log.info(`Placing MARKET ${side} order: ${qty} BTC`);
+        log.info(`[${this.symbol}] Placing MARKET ${side} order: ${qty} ${this.unit}`);
       } else {
-        log.info(`Placing ${side} order: ${qty} BTC @ $${roundedPrice}`);
+        log.info(`[${this.symbol}] Placing ${side} order: ${qty} ${this.unit} @ $${roundedPrice}`);
       }
 
       const result = await this.client.placeOrder(
@@ -55,7 +87,8 @@ export class OrderManager {
         qty,
         roundedPrice,
         reduceOnly,
-        orderType
+        orderType,
+        transport
       );
 
       if (!result.success) {
@@ -85,12 +118,13 @@ export class OrderManager {
 
   /**
    * Cancel an order
+   * transport overrides API_ORDER_TRANSPORT for this call
    */
-  async cancelOrder(orderId: string): Promise<boolean> {
+  async cancelOrder(orderId: string, transport?: OrderTransport): Promise<boolean> {
     try {
       log.info(`Canceling order: ${orderId}`);
 
-      const success = await this.client.cancelOrder(orderId);
+      const success = await this.client.cancelOrder(orderId, transport);
 
       if (success) {
         log.info(`✅ Order canceled: ${orderId}`);
@@ -108,32 +142,41 @@ export class OrderManager {
 
   /**
    * Cancel all open orders
+   * Resolves false if that can't be confirmed (the list couldn't be fetched or a cancel failed),
+   * so callers keep tracking the orders instead of assuming none are left
    */
-  async cancelAllOrders(): Promise<void> {
+  async cancelAllOrders(): Promise<boolean> {
+    let orders: OrderInfo[];
     try {
-      const orders = await this.client.getOpenOrders(this.symbol);
-
-      log.info(`Found ${orders.length} open orders to cancel`);
+      orders = await this.client.getOpenOrders(this.symbol);
+    } catch (error: any) {
+      log.error(`[${this.symbol}] Error listing open orders to cancel: ${error.message}`);
+      return false;
+    }
 
-      for (const order of orders) {
-        await this.cancelOrder(order.orderId);
-      }
+    log.info(`[${this.symbol}] Found ${orders.length} open orders to cancel`);
 
-    } catch (error: any) {
-      log.error(`Error canceling all orders: ${error.message}`);
+    let canceled = true;
+    for (const order of orders) {
+      canceled = await this.cancelOrder(order.orderId) && canceled;
     }
+    return canceled;
+  }
+
+  /**
+   * Get open orders for this symbol (ours and any others)
+   * Throws if the list can't be fetched, so a failed query isn't mistaken for "no orders"
+   */
+  async getOpenOrders(): Promise<OrderInfo[]> {
+    return this.client.getOpenOrders(this.symbol);
   }
 
   /**
    * Get order info
+   * Resolves null when the exchange doesn't know the order; throws when the lookup failed
    */
   async getOrderInfo(orderId: string): Promise<OrderInfo | null> {
-    try {
-      return await this.client.getOrderInfo(orderId);
-    } catch (error: any) {
-      log.error(`Error getting order info: ${error.message}`);
-      return null;
-    }
+    return this.client.getOrderInfo(orderId);
   }
 
   /**
@@ -143,7 +186,14 @@ export class OrderManager {
     const startTime = Date.now();
 
     while (Date.now() - startTime < timeoutMs) {
-      const orderInfo = await this.getOrderInfo(orderId);
+      let orderInfo: OrderInfo | null;
+      try {
+        orderInfo = await this.getOrderInfo(orderId);
+      } catch (error: any) {
+        // Status unknown, not "no order": ask again
+        log.warn(`Error getting order info for ${orderId}: ${error.message}`);
+        orderInfo = null;
+      }
 
       if (!orderInfo) {
         await this.sleep(500);
@@ -168,11 +218,28 @@ export class OrderManager {
   }
 
   /**
-   * Close position with market order
+   * Close position using the configured close policy
    */
   async closePosition(qty: Decimal, side: OrderSide): Promise<boolean> {
+    if (this.closePolicy === 'passive' && this.passiveClose) {
+      return this.closePositionPassive(qty, side, this.passiveClose);
+    }
+    return this.closePositionMarket(qty, side);
+  }
+
+  /**
+   * Whether an order was placed by closePosition (its fills are not new exposure)
+   */
+  isCloseOrder(orderId: string): boolean {
+    return this.closeOrderIds.has(orderId);
+  }
+
+  /**
+   * Close position with market order
+   */
+  async closePositionMarket(qty: Decimal, side: OrderSide): Promise<boolean> {
     try {
-      log.warn(`🔄 Closing ${side} position: ${qty} BTC with MARKET order`);
+      log.warn(`🔄 [${this.symbol}] Closing ${side} position: ${qty} ${this.unit} with MARKET order`);
 
       // Use MARKET order for immediate fill
       const result = await this.placeOrder(side, qty, Decimal(0), true, 'market');
@@ -181,10 +248,11 @@ export class OrderManager {
         log.error('Failed to place close market order');
         return false;
       }
+      this.trackCloseOrder(result.orderId);
 
       // Market orders should be filled immediately
       if (result.status === 'FILLED') {
-        log.warn(`✅ Position closed immediately: ${qty} BTC`);
+        log.warn(`✅ [${this.symbol}] Position closed immediately: ${qty} ${this.unit}`);
         return true;
       }
 
@@ -193,7 +261,7 @@ export class OrderManager {
       const filledOrder = await this.waitForOrderFill(result.orderId, 5000);
 
       if (filledOrder && filledOrder.status === 'FILLED') {
-        log.warn(`✅ Position closed: ${qty} BTC`);
+        log.warn(`✅ [${this.symbol}] Position closed: ${qty} ${this.unit}`);
         return true;
       }
 
@@ -206,13 +274,132 @@ export class OrderManager {
     }
   }
 
+  /**
+   * Close position with reduce-only limit orders at the touch, escalating to market
+   * Each order rests for repriceSec and is then canceled and reposted at the new touch.
+   * Escalates after maxReprices orders, timeoutSec, or an adverse move of maxAdverseBp
+   */
+  private async closePositionPassive(qty: Decimal, side: OrderSide, config: PassiveCloseConfig): Promise<boolean> {
+    const deadline = Date.now() + config.timeoutSec * 1000;
+    let remaining = qty;
+    let escalateReason: string | null = null;
+
+    log.warn(`🔄 [${this.symbol}] Closing ${side} position: ${qty} ${this.unit} with reduce-only LIMIT orders`);
+
+    try {
+      const reference = await this.getTouch(side);
+
+      for (let attempt = 0; remaining.gt(0) && !escalateReason; attempt++) {
+        if (attempt >= config.maxReprices) {
+          escalateReason = `not filled after ${config.maxReprices} limit orders`;
+          break;
+        }
+
+        const touch = await this.getTouch(side);
+        const tick = this.client.getTickSize(this.symbol);
+        const price = side === 'sell'
+          ? touch.minus(tick.mul(config.throughTicks))
+          : touch.plus(tick.mul(config.throughTicks));
+
+        const order = await this.placeOrder(side, remaining, price, true);
+        if (!order) {
+          escalateReason = 'failed to place limit order';
+          break;
+        }
+        this.trackCloseOrder(order.orderId);
+
+        // Rest until filled, reprice time, timeout or adverse move
+        const restUntil = Math.min(Date.now() + config.repriceSec * 1000, deadline);
+        let info: OrderInfo | null = null;
+        while (Date.now() < restUntil) {
+          await this.sleep(1000);
+          try {
+            info = await this.getOrderInfo(order.orderId);
+          } catch (error: any) {
+            // Not known to be filled: keep it resting, it is canceled and looked up again below
+            log.warn(`[${this.symbol}] Error getting close order status: ${error.message}`);
+            info = null;
+          }
+          if (info && info.status === 'FILLED') {
+            break;
+          }
+
+          const adverseBp = this.getAdverseMoveBp(side, reference, await this.getTouch(side));
+          if (adverseBp > config.maxAdverseBp) {
+            escalateReason = `price moved ${adverseBp.toFixed(2)} bp against the position`;
+            break;
+          }
+        }
+
+        if (!info || info.status !== 'FILLED') {
+          await this.cancelOrder(order.orderId);
+          info = await this.getOrderInfo(order.orderId);
+        }
+
+        const filled = info ? info.filledQty : Decimal(0);
+        remaining = remaining.minus(filled);
+        log.info(`[${this.symbol}] Passive close: ${filled} ${this.unit} filled @ $${price}, ${Decimal.max(remaining, 0)} ${this.unit} left`);
+
+        if (!escalateReason && remaining.gt(0) && Date.now() >= deadline) {
+          escalateReason = `not filled within ${config.timeoutSec}s`;
+        }
+      }
+    } catch (error: any) {
+      escalateReason = `error during passive close: ${error.message}`;
+    }
+
+    if (remaining.lte(0)) {
+      log.warn(`✅ [${this.symbol}] Position closed passively: ${qty} ${this.unit}`);
+      return true;
+    }
+
+    log.warn(`⏫ [${this.symbol}] Escalating close to MARKET (${escalateReason})`);
+    return this.closePositionMarket(remaining, side);
+  }
+
+  /**
+   * Same-side best price for a close order (best ask when selling, best bid when buying)
+   */
+  private async getTouch(side: OrderSide): Promise<Decimal> {
+    const [bid, ask] = await this.client.fetchBBOPrices(this.symbol);
+    const touch = side === 'sell' ? ask : bid;
+    if (touch.lte(0)) {
+      throw new Error('empty order book');
+    }
+    return touch;
+  }
+
+  /**
+   * How far the touch moved against the position since the close started, in basis points
+   * Selling closes a long, so a falling price is adverse; buying closes a short
+   */
+  private getAdverseMoveBp(side: OrderSide, reference: Decimal, touch: Decimal): number {
+    const move = side === 'sell' ? reference.minus(touch) : touch.minus(reference);
+    return move.div(reference).mul(10000).toNumber();
+  }
+
+  /**
+   * Remember close order IDs (bounded) so their fills can be recognized
+   */
+  private trackCloseOrder(orderId: string): void {
+    this.closeOrderIds.add(orderId);
+    if (this.closeOrderIds.size > 100) {
+      const oldest = this.closeOrderIds.values().next().value;
+      if (oldest !== undefined) {
+        this.closeOrderIds.delete(oldest);
+      }
+    }
+  }
+
   /**
    * Round price to tick size
    */
   private roundToTickSize(price: Decimal): Decimal {
-    const ticks = price.div(this.tickSize);
+    // Tick size is read lazily: it is only known after client.initialize()
+    const tickSize = this.client.getTickSize(this.symbol);
+    const ticks = price.div(tickSize);
     const rounded = ticks.toDecimalPlaces(0, Decimal.ROUND_HALF_UP);
-    return rounded.mul(this.tickSize);
+    return rounded.mul(tickSize);
   }
 
   /**
@@ -241,13 +428,9 @@ export class OrderManager {
 
   /**
    * Get current position
+   * Throws if the position can't be fetched, so a failed query isn't mistaken for flat
    */
   async getCurrentPosition(): Promise<Decimal> {
-    try {
-      return await this.client.getPosition(this.symbol);
-    } catch (error: any) {
-      log.error(`Error getting position: ${error.message}`);
-      return Decimal(0);
-    }
+    return this.client.getPosition(this.symbol);
   }
 }
@@ -0,0 +1,117 @@
+import Decimal from 'decimal.js';
+import { OrderInfo, OrderSide, PointsBucket, PointsStats, PointsTier } from '../types';
+
+// Gaps longer than this (e.g. a stalled price stream) only count up to the cap
+const MAX_SAMPLE_GAP_MS = 10000;
+// Hourly buckets kept in memory
+const MAX_HOURS = 48;
+
+/**
+ * Points Estimator
+ * Approximates maker points from resting orders: every mark price tick credits each open
+ * order with notional × tier weight × elapsed time while it sits inside the scoring band
+ */
+export class PointsEstimator {
+  private tiers: PointsTier[];
+  private stats: PointsStats;
+  private lastSampleTime: Map<string, number> = new Map();
+
+  constructor(tiers: PointsTier[]) {
+    this.tiers = [...tiers].sort((a, b) => a.maxDistanceBp - b.maxDistanceBp);
+    this.stats = {
+      total: 0,
+      bySide: { buy: 0, sell: 0 },
+      byHour: {},
+      timeInBandSec: { buy: 0, sell: 0 }
+    };
+  }
+
+  /**
+   * Credit the orders resting in one market since its previous sample
+   */
+  sample(symbol: string, orders: OrderInfo[], markPrice: Decimal, now: number = Date.now()): void {
+    const last = this.lastSampleTime.get(symbol);
+    this.lastSampleTime.set(symbol, now);
+
+    if (last === undefined || markPrice.lte(0)) {
+      return;
+    }
+
+    const elapsedMs = Math.min(now - last, MAX_SAMPLE_GAP_MS);
+    if (elapsedMs <= 0) {
+      return;
+    }
+
+    const hour = new Date(now).toISOString().slice(0, 13);
+    for (const order of orders) {
+      if (order.status !== 'OPEN') {
+        continue;
+      }
+
+      const distanceBp = markPrice.minus(order.price).abs().div(order.price).mul(10000).toNumber();
+      const weight = this.getWeight(distanceBp);
+      if (weight <= 0) {
+        continue;
+      }
+
+      const notional = order.qty.minus(order.filledQty).mul(markPrice).toNumber();
+      const score = notional * weight * elapsedMs / 3600000;
+      this.credit(order.side, hour, score, elapsedMs / 1000);
+    }
+  }
+
+  /**
+   * Copy of the accumulated estimate
+   */
+  getStats(): PointsStats {
+    const byHour: Record<string, PointsBucket> = {};
+    for (const [hour, bucket] of Object.entries(this.stats.byHour)) {
+      byHour[hour] = { ...bucket };
+    }
+
+    return {
+      total: this.stats.total,
+      bySide: { ...this.stats.bySide },
+      byHour,
+      timeInBandSec: { ...this.stats.timeInBandSec }
+    };
+  }
+
+  /**
+   * Continue from a persisted estimate
+   */
+  restore(stats: PointsStats): void {
+    this.stats = {
+      total: stats.total,
+      bySide: { ...stats.bySide },
+      byHour: {},
+      timeInBandSec: { ...stats.timeInBandSec }
+    };
+    for (const [hour, bucket] of Object.entries(stats.byHour)) {
+      this.stats.byHour[hour] = { ...bucket };
+    }
+  }
+
+  /**
+   * Weight of the tightest tier containing the distance (0 outside the band)
+   */
+  private getWeight(distanceBp: number): number {
+    const tier = this.tiers.find(t => distanceBp <= t.maxDistanceBp);
+    return tier ? tier.weight : 0;
+  }
+
+  private credit(side: OrderSide, hour: string, score: number, seconds: number): void {
+    this.stats.total += score;
+    this.stats.bySide[side] += score;
+    this.stats.timeInBandSec[side] += seconds;
+
+    if (!this.stats.byHour[hour]) {
+      this.stats.byHour[hour] = { buy: 0, sell: 0 };
+      const hours = Object.keys(this.stats.byHour).sort();
+      for (const old of hours.slice(0, Math.max(0, hours.length - MAX_HOURS))) {
+        delete this.stats.byHour[old];
+      }
+    }
+    this.stats.byHour[hour][side] += score;
+  }
+}
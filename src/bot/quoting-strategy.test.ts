@@ -0,0 +1,62 @@
+import { afterAll, describe, expect, it } from 'bun:test';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createQuotingStrategy, loadQuotingStrategies } from './quoting-strategy';
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'strategy-test-'));
+
+function writeModule(name: string, source: string): string {
+  const file = path.join(dir, name);
+  fs.writeFileSync(file, source);
+  return file;
+}
+
+afterAll(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('loadQuotingStrategies', () => {
+  it('accepts registered names', async () => {
+    await loadQuotingStrategies(['default']);
+    expect(createQuotingStrategy('default').name).toBe('default');
+  });
+
+  it('rejects an unknown name', async () => {
+    await expect(loadQuotingStrategies(['wide'])).rejects.toThrow('Unknown quoting strategy "wide"');
+  });
+
+  it('registers a module exporting a strategy class under its path', async () => {
+    const file = writeModule('class-strategy.ts', `
+      export default class WideStrategy {
+        readonly name = 'wide';
+        quote() { return { quotes: [] }; }
+      }
+    `);
+
+    await loadQuotingStrategies([file]);
+    const first = createQuotingStrategy(file);
+    expect(first.name).toBe('wide');
+    expect(createQuotingStrategy(file)).not.toBe(first);
+  });
+
+  it('registers a module exporting a factory', async () => {
+    const file = writeModule('factory-strategy.ts', `
+      export default () => ({ name: 'flat', quote: () => ({ quotes: [] }) });
+    `);
+
+    await loadQuotingStrategies([file]);
+    expect(createQuotingStrategy(file).name).toBe('flat');
+  });
+
+  it('rejects modules that are missing or export no strategy', async () => {
+    const missing = path.join(dir, 'missing.ts');
+    await expect(loadQuotingStrategies([missing])).rejects.toThrow(`Failed to load quoting strategy module ${missing}`);
+
+    const noDefault = writeModule('no-default.ts', `export const strategy = 1;`);
+    await expect(loadQuotingStrategies([noDefault])).rejects.toThrow('must default-export a QuotingStrategy class or factory');
+
+    const notStrategy = writeModule('not-strategy.ts', `export default () => ({ name: 'broken' });`);
+    await expect(loadQuotingStrategies([notStrategy])).rejects.toThrow('did not produce a QuotingStrategy');
+  });
+});
@@ -0,0 +1,236 @@
+import Decimal from 'decimal.js';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import {
+  DesiredQuote,
+  MarketSnapshot,
+  OrderInfo,
+  OrderSide,
+  QuoteDecision,
+  QuoteLevel,
+  QuotingStrategy,
+  UnwindQuote
+} from '../types';
+
+/**
+ * Default quoting strategy
+ * One quote per ladder level at its target distance, kept while it stays inside its band:
+ * - Pause everything while last price is too far from mark (volatility)
+ * - Replace orders that sit inside the spread
+ * - Replace orders that drift outside [minDistanceBp, maxDistanceBp]
+ * - With adaptive distance on, replace orders too far from the volatility-scaled target
+ * - With inventory mode on, widen or drop quotes that would grow the position and
+ *   work the position off with a reduce-only order
+ */
+export class DefaultQuotingStrategy implements QuotingStrategy {
+  readonly name: string = 'default';
+
+  quote(snapshot: MarketSnapshot): QuoteDecision {
+    const pauseReason = this.checkVolatility(snapshot);
+    if (pauseReason) {
+      return { quotes: [], pauseReason };
+    }
+
+    const quotes: DesiredQuote[] = [];
+    const mode = snapshot.config.mode;
+
+    for (const side of ['buy', 'sell'] as OrderSide[]) {
+      if (mode !== 'both' && mode !== side) {
+        continue;
+      }
+
+      const orders = side === 'buy' ? snapshot.buyOrders : snapshot.sellOrders;
+      for (const level of snapshot.levels) {
+        const distanceBp = this.getDistanceBp(snapshot, side, level);
+        if (distanceBp === null) {
+          continue;
+        }
+
+        quotes.push({
+          side,
+          level: level.index,
+          distanceBp,
+          size: new Decimal(level.sizeBtc),
+          replaceReason: this.checkOrder(snapshot, side, level, orders[level.index], distanceBp)
+        });
+      }
+    }
+
+    return { quotes, unwind: this.getUnwindQuote(snapshot) };
+  }
+
+  /**
+   * Target distance for a level, skewed away from mark on the side that grows inventory
+   * Returns null when a fill at this level would take the position past maxPosition
+   */
+  protected getDistanceBp(snapshot: MarketSnapshot, side: OrderSide, level: QuoteLevel): number | null {
+    const targetBp = snapshot.targetDistancesBp[level.index] ?? level.distanceBp;
+    const inventory = snapshot.config.inventory;
+    const growing = (side === 'buy' && snapshot.position.gt(0)) || (side === 'sell' && snapshot.position.lt(0));
+
+    if (!inventory.enabled || !growing || inventory.maxPosition <= 0) {
+      return targetBp;
+    }
+
+    const position = snapshot.position.abs();
+    if (position.add(level.sizeBtc).gt(inventory.maxPosition)) {
+      return null;
+    }
+
+    const skewBp = inventory.skewBp * position.div(inventory.maxPosition).toNumber();
+    return Math.round(Math.min(level.maxDistanceBp, targetBp + skewBp) * 10) / 10;
+  }
+
+  /**
+   * Passive reduce-only order for the whole position (inventory mode only)
+   */
+  protected getUnwindQuote(snapshot: MarketSnapshot): UnwindQuote | undefined {
+    if (!snapshot.config.inventory.enabled || snapshot.position.isZero()) {
+      return undefined;
+    }
+
+    const side: OrderSide = snapshot.position.gt(0) ? 'sell' : 'buy';
+    const distanceBp = snapshot.config.inventory.unwindDistanceBp;
+    const size = snapshot.position.abs();
+    const order = snapshot.unwindOrder;
+
+    let replaceReason: string | undefined;
+    if (order && order.status === 'OPEN') {
+      const distance = snapshot.markPrice.minus(order.price).abs().div(order.price).mul(10000);
+      if (order.side !== side || !order.qty.eq(size)) {
+        replaceReason = `Position changed (${order.side} ${order.qty} → ${side} ${size})`;
+      } else if (distance.minus(distanceBp).abs().gt(snapshot.config.adaptiveDistance.repriceToleranceBp)) {
+        replaceReason = `Off unwind distance (${distance.toFixed(2)} bp vs ${distanceBp} bp)`;
+      }
+    }
+
+    return { side, distanceBp, size, replaceReason };
+  }
+
+  /**
+   * Last-mark gap detection
+   * If last price is too far from mark, market is volatile - pause ordering.
+   * Only resume when gap is below 80% of threshold (hysteresis)
+   */
+  protected checkVolatility(snapshot: MarketSnapshot): string | undefined {
+    if (!snapshot.lastPrice) {
+      return undefined;
+    }
+
+    const thresholdBp = new Decimal(snapshot.config.orderDistanceBp);
+    const gapBp = snapshot.lastPrice.sub(snapshot.markPrice).abs().div(snapshot.markPrice).mul(10000);
+
+    if (gapBp.gt(thresholdBp)) {
+      return `High volatility detected (last-mark gap: ${gapBp.toFixed(2)} bp > ${thresholdBp} bp)`;
+    }
+
+    if (snapshot.paused && gapBp.gte(thresholdBp.mul(0.8))) {
+      return `Still volatile (last-mark gap: ${gapBp.toFixed(2)} bp)`;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Decide whether a live order must be replaced; undefined keeps it
+   */
+  protected checkOrder(
+    snapshot: MarketSnapshot,
+    side: OrderSide,
+    level: QuoteLevel,
+    order: OrderInfo | null,
+    targetBp: number
+  ): string | undefined {
+    if (!order || order.status !== 'OPEN') {
+      return undefined;
+    }
+
+    // Ensure orders are not inside the spread (would get filled immediately)
+    if (side === 'buy' && snapshot.bid && order.price.gte(snapshot.bid)) {
+      return `Order inside spread! Buy: ${order.price.toFixed(2)} >= Bid: ${snapshot.bid.toFixed(2)}`;
+    }
+    if (side === 'sell' && snapshot.ask && order.price.lte(snapshot.ask)) {
+      return `Order inside spread! Sell: ${order.price.toFixed(2)} <= Ask: ${snapshot.ask.toFixed(2)}`;
+    }
+
+    // Replace if too close (risk of fill) or too far (no points)
+    const distance = snapshot.markPrice
+      .minus(order.price)
+      .abs()
+      .div(order.price)
+      .mul(10000);
+
+    if (distance.lt(new Decimal(level.minDistanceBp))) {
+      return `Too close to mark price (${distance.toFixed(2)} bp < ${level.minDistanceBp} bp)`;
+    }
+    if (distance.gt(new Decimal(level.maxDistanceBp))) {
+      return `Too far from mark price (${distance.toFixed(2)} bp > ${level.maxDistanceBp} bp)`;
+    }
+
+    const adaptive = snapshot.config.adaptiveDistance;
+    const tracksTarget = adaptive.enabled || snapshot.config.inventory.enabled;
+    if (tracksTarget && distance.minus(targetBp).abs().gt(adaptive.repriceToleranceBp)) {
+      return `Off target distance (${distance.toFixed(2)} bp vs target ${targetBp} bp)`;
+    }
+
+    return undefined;
+  }
+}
+
+// Strategy registry, keyed by the name used in TRADING_STRATEGY (module strategies by their path)
+const strategies: Map<string, () => QuotingStrategy> = new Map([
+  ['default', () => new DefaultQuotingStrategy()]
+]);
+
+/**
+ * Register a quoting strategy so it can be selected by name from config
+ */
+export function registerQuotingStrategy(name: string, factory: () => QuotingStrategy): void {
+  strategies.set(name, factory);
+}
+
+/**
+ * Make every strategy named in config available before bots are created
+ * A name starting with ./, ../ or / is a module path (relative to the working directory) whose
+ * default export is a QuotingStrategy class or a factory returning one; it is registered under
+ * that path. Any other name must already be registered
+ */
+export async function loadQuotingStrategies(names: string[]): Promise<void> {
+  for (const name of new Set(names)) {
+    if (strategies.has(name)) {
+      continue;
+    }
+    if (!/^(\.{1,2})?\//.test(name)) {
+      throw new Error(`Unknown quoting strategy "${name}" (available: ${Array.from(strategies.keys()).join(', ')}, or a module path such as ./strategies/my-strategy.ts)`);
+    }
+
+    const file = path.resolve(process.cwd(), name);
+    let exported: any;
+    try {
+      exported = (await import(pathToFileURL(file).href)).default;
+    } catch (error: any) {
+      throw new Error(`Failed to load quoting strategy module ${file}: ${error.message}`);
+    }
+    if (typeof exported !== 'function') {
+      throw new Error(`Quoting strategy module ${file} must default-export a QuotingStrategy class or factory`);
+    }
+
+    const isClass = typeof exported.prototype?.quote === 'function';
+    const factory = () => (isClass ? new exported() : exported()) as QuotingStrategy;
+    if (typeof factory()?.quote !== 'function') {
+      throw new Error(`Quoting strategy module ${file} did not produce a QuotingStrategy (no quote method)`);
+    }
+    registerQuotingStrategy(name, factory);
+  }
+}
+
+/**
+ * Create a fresh strategy instance (one per market, so strategies may keep state)
+ */
+export function createQuotingStrategy(name: string): QuotingStrategy {
+  const factory = strategies.get(name);
+  if (!factory) {
+    throw new Error(`Unknown quoting strategy "${name}" (available: ${Array.from(strategies.keys()).join(', ')})`);
+  }
+  return factory();
+}
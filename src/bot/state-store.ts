@@ -0,0 +1,57 @@
+import fs from 'fs';
+import path from 'path';
+import { PersistedBotState } from '../types';
+import { log } from '../utils/logger';
+
+// Bump when the saved shape changes incompatibly; older files are ignored
+export const STATE_VERSION = 1;
+
+/**
+ * State Store
+ * One JSON file per account, written atomically (temp file + rename) so a crash mid-write
+ * leaves the previous state intact
+ */
+export class StateStore {
+  private file: string;
+
+  constructor(dir: string, accountId: string) {
+    const name = accountId.replace(/[^A-Za-z0-9_.-]/g, '_');
+    this.file = path.resolve(process.cwd(), dir, `${name}.json`);
+  }
+
+  getFile(): string {
+    return this.file;
+  }
+
+  /**
+   * Saved state, or null if there is none (or it can't be used)
+   */
+  load(): PersistedBotState | null {
+    if (!fs.existsSync(this.file)) {
+      return null;
+    }
+
+    try {
+      const state = JSON.parse(fs.readFileSync(this.file, 'utf-8')) as PersistedBotState;
+      if (state.version !== STATE_VERSION) {
+        log.warn(`[StateStore] Ignoring ${this.file}: version ${state.version}, expected ${STATE_VERSION}`);
+        return null;
+      }
+      return state;
+    } catch (error: any) {
+      log.warn(`[StateStore] Ignoring unreadable ${this.file}: ${error.message}`);
+      return null;
+    }
+  }
+
+  save(state: PersistedBotState): void {
+    try {
+      fs.mkdirSync(path.dirname(this.file), { recursive: true });
+      const tmp = `${this.file}.tmp`;
+      fs.writeFileSync(tmp, JSON.stringify(state, null, 2));
+      fs.renameSync(tmp, this.file);
+    } catch (error: any) {
+      log.error(`[StateStore] Failed to save ${this.file}: ${error.message}`);
+    }
+  }
+}
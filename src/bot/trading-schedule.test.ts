@@ -0,0 +1,92 @@
+import { afterAll, describe, expect, it } from 'bun:test';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { TradingSchedule } from './trading-schedule';
+import { ScheduleConfig } from '../types';
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'schedule-test-'));
+
+function createSchedule(overrides: Partial<ScheduleConfig> = {}): TradingSchedule {
+  return new TradingSchedule({
+    activeHours: '',
+    blackoutFile: '',
+    blackoutBeforeMin: 5,
+    blackoutAfterMin: 15,
+    ...overrides
+  });
+}
+
+function writeCalendar(name: string, events: any): string {
+  const file = path.join(dir, name);
+  fs.writeFileSync(file, JSON.stringify(events));
+  return file;
+}
+
+const at = (iso: string) => Date.parse(iso);
+
+afterAll(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('TradingSchedule', () => {
+  it('trades around the clock without windows or blackouts', () => {
+    const schedule = createSchedule();
+    expect(schedule.getStatus(at('2026-11-13T03:00:00Z'), true)).toEqual({ active: true, reason: undefined, nextChange: undefined });
+  });
+
+  it('pauses outside the UTC trading windows', () => {
+    const schedule = createSchedule({ activeHours: '08:00-16:00' });
+
+    expect(schedule.getStatus(at('2026-11-13T08:00:00Z')).active).toBe(true);
+    expect(schedule.getStatus(at('2026-11-13T15:59:00Z')).active).toBe(true);
+
+    const closed = schedule.getStatus(at('2026-11-13T16:00:00Z'), true);
+    expect(closed.active).toBe(false);
+    expect(closed.reason).toBe('Outside trading hours (08:00-16:00 UTC)');
+    expect(closed.nextChange).toBe(at('2026-11-14T08:00:00Z'));
+  });
+
+  it('handles windows crossing midnight', () => {
+    const schedule = createSchedule({ activeHours: '20:00-02:00' });
+
+    expect(schedule.getStatus(at('2026-11-13T23:30:00Z')).active).toBe(true);
+    expect(schedule.getStatus(at('2026-11-14T01:59:00Z')).active).toBe(true);
+    expect(schedule.getStatus(at('2026-11-14T02:00:00Z')).active).toBe(false);
+    expect(schedule.getStatus(at('2026-11-13T12:00:00Z')).active).toBe(false);
+  });
+
+  it('pauses around blackout events with default and per-event margins', () => {
+    const file = writeCalendar('calendar.json', [
+      { time: '2026-11-13T13:30:00Z', name: 'CPI' },
+      { time: '2026-11-18T19:00:00Z', name: 'FOMC', afterMin: 30 },
+      '2026-11-20T12:00:00Z'
+    ]);
+    const schedule = createSchedule({ blackoutFile: file });
+
+    expect(schedule.getStatus(at('2026-11-13T13:24:00Z')).active).toBe(true);
+    expect(schedule.getStatus(at('2026-11-13T13:25:00Z'))).toEqual({ active: false, reason: 'Blackout: CPI' });
+    expect(schedule.getStatus(at('2026-11-13T13:44:00Z')).active).toBe(false);
+    expect(schedule.getStatus(at('2026-11-13T13:45:00Z')).active).toBe(true);
+
+    expect(schedule.getStatus(at('2026-11-18T19:29:00Z')).reason).toBe('Blackout: FOMC');
+    expect(schedule.getStatus(at('2026-11-20T11:56:00Z')).reason).toBe('Blackout: 2026-11-20T12:00:00.000Z');
+
+    const upcoming = schedule.getUpcomingBlackouts(at('2026-11-14T00:00:00Z'));
+    expect(upcoming.map(event => event.name)).toEqual(['FOMC', '2026-11-20T12:00:00.000Z']);
+  });
+
+  it('reports when a blackout inside a trading window ends', () => {
+    const file = writeCalendar('window.json', [{ time: '2026-11-13T10:00:00Z', name: 'NFP', beforeMin: 0, afterMin: 10 }]);
+    const schedule = createSchedule({ activeHours: '08:00-16:00', blackoutFile: file });
+
+    const status = schedule.getStatus(at('2026-11-13T10:05:00Z'), true);
+    expect(status.active).toBe(false);
+    expect(status.nextChange).toBe(at('2026-11-13T10:10:00Z'));
+  });
+
+  it('rejects a calendar with an invalid time', () => {
+    const file = writeCalendar('broken.json', [{ time: 'next tuesday', name: 'CPI' }]);
+    expect(() => createSchedule({ blackoutFile: file })).toThrow('entry 0 has an invalid time "next tuesday"');
+  });
+});
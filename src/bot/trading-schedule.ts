@@ -0,0 +1,134 @@
+import fs from 'fs';
+import path from 'path';
+import { BlackoutEvent, ScheduleConfig, ScheduleStatus } from '../types';
+import { log } from '../utils/logger';
+import { getBlackoutEvents } from '../config';
+
+// Blackout calendar is re-read at most this often when its mtime changes
+const RELOAD_CHECK_MS = 60000;
+// How far ahead to look for the next window change
+const LOOKAHEAD_MS = 7 * 24 * 3600000;
+
+interface TimeWindow {
+  label: string;
+  startMin: number;  // Minutes after UTC midnight
+  endMin: number;    // May be below startMin for windows crossing midnight
+}
+
+/**
+ * Trading Schedule
+ * UTC trading windows plus a blackout calendar file, e.g.
+ * [{"time":"2026-11-13T13:30:00Z","name":"CPI"},{"time":"2026-11-18T19:00:00Z","name":"FOMC","afterMin":30}]
+ * Plain ISO timestamp strings are accepted too and use the default before/after minutes
+ */
+export class TradingSchedule {
+  private config: ScheduleConfig;
+  private windows: TimeWindow[];
+  private blackouts: BlackoutEvent[] = [];
+  private blackoutMtime: number = 0;
+  private lastReloadCheck: number = 0;
+
+  constructor(config: ScheduleConfig) {
+    this.config = config;
+    this.windows = config.activeHours
+      .split(',')
+      .map(w => w.trim())
+      .filter(w => w.length > 0)
+      .map(w => {
+        const [start, end] = w.split('-');
+        return { label: w, startMin: toMinutes(start), endMin: toMinutes(end) };
+      });
+
+    if (config.blackoutFile) {
+      this.loadBlackouts();
+    }
+  }
+
+  /**
+   * Whether quoting is allowed now, and if not, why
+   * Cheap enough to call on every mark price tick; pass withNextChange for announcements
+   */
+  getStatus(now: number = Date.now(), withNextChange: boolean = false): ScheduleStatus {
+    this.reloadBlackoutsIfChanged(now);
+
+    const reason = this.getPauseReason(now);
+    const status: ScheduleStatus = { active: reason === null, reason: reason ?? undefined };
+    if (withNextChange) {
+      status.nextChange = this.getNextChange(now, status.active);
+    }
+    return status;
+  }
+
+  /**
+   * Upcoming blackout events (for startup logs)
+   */
+  getUpcomingBlackouts(now: number = Date.now()): BlackoutEvent[] {
+    return this.blackouts.filter(event => event.end > now);
+  }
+
+  /**
+   * First minute within the lookahead at which active flips
+   */
+  private getNextChange(now: number, active: boolean): number | undefined {
+    if (this.windows.length === 0 && this.blackouts.length === 0) {
+      return undefined;
+    }
+
+    for (let t = now - (now % 60000) + 60000; t <= now + LOOKAHEAD_MS; t += 60000) {
+      if ((this.getPauseReason(t) === null) !== active) {
+        return t;
+      }
+    }
+    return undefined;
+  }
+
+  private getPauseReason(time: number): string | null {
+    const blackout = this.blackouts.find(event => time >= event.start && time < event.end);
+    if (blackout) {
+      return `Blackout: ${blackout.name}`;
+    }
+
+    if (this.windows.length > 0) {
+      const date = new Date(time);
+      const minute = date.getUTCHours() * 60 + date.getUTCMinutes();
+      const inWindow = this.windows.some(w => w.startMin <= w.endMin
+        ? minute >= w.startMin && minute < w.endMin
+        : minute >= w.startMin || minute < w.endMin);
+      if (!inWindow) {
+        return `Outside trading hours (${this.windows.map(w => w.label).join(', ')} UTC)`;
+      }
+    }
+
+    return null;
+  }
+
+  private reloadBlackoutsIfChanged(now: number): void {
+    if (!this.config.blackoutFile || now - this.lastReloadCheck < RELOAD_CHECK_MS) {
+      return;
+    }
+    this.lastReloadCheck = now;
+
+    try {
+      if (fs.statSync(this.resolveFile()).mtimeMs !== this.blackoutMtime) {
+        this.loadBlackouts();
+      }
+    } catch (error: any) {
+      // Keep the calendar we have; a broken edit shouldn't stop trading decisions
+      log.warn(`[Schedule] Failed to reload blackout calendar: ${error.message}`);
+    }
+  }
+
+  private loadBlackouts(): void {
+    this.blackouts = getBlackoutEvents(this.config);
+    this.blackoutMtime = fs.statSync(this.resolveFile()).mtimeMs;
+  }
+
+  private resolveFile(): string {
+    return path.resolve(process.cwd(), this.config.blackoutFile);
+  }
+}
+
+function toMinutes(hhmm: string): number {
+  const [hours, minutes] = hhmm.split(':').map(Number);
+  return hours * 60 + minutes;
+}
@@ -0,0 +1,119 @@
+import Decimal from 'decimal.js';
+import { AdaptiveDistanceConfig, QuoteLevel } from '../types';
+
+// Mark price arrives ~3 times per second; one sample per second is enough for realized volatility
+const SAMPLE_INTERVAL_MS = 1000;
+// Need at least this many samples before trusting the estimate
+const MIN_SAMPLES = 30;
+// Bounds for the volatility scaling factor applied to configured distances
+const MIN_FACTOR = 0.5;
+const MAX_FACTOR = 3;
+// Keep targets this fraction of the band width away from min/max so a fresh order isn't replaced right away
+const BAND_MARGIN = 0.1;
+
+interface PriceSample {
+  time: number;
+  price: number;
+}
+
+/**
+ * Volatility Tracker
+ * Rolling realized volatility from the mark price stream, used to scale order distance
+ */
+export class VolatilityTracker {
+  private config: AdaptiveDistanceConfig;
+  private samples: PriceSample[] = [];
+  private lastFillTime: number | null = null;
+
+  constructor(config: AdaptiveDistanceConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Apply reloaded settings, keeping the collected samples
+   */
+  setConfig(config: AdaptiveDistanceConfig): void {
+    this.config = config;
+  }
+
+  /**
+   * Add a mark price sample
+   */
+  addSample(price: Decimal, time: number = Date.now()): void {
+    const last = this.samples[this.samples.length - 1];
+    if (last && time - last.time < SAMPLE_INTERVAL_MS) {
+      return;
+    }
+
+    this.samples.push({ time, price: price.toNumber() });
+
+    const cutoff = time - this.config.volWindowSec * 1000;
+    while (this.samples.length > 0 && this.samples[0].time < cutoff) {
+      this.samples.shift();
+    }
+  }
+
+  /**
+   * Record a fill so distances widen for a while
+   */
+  recordFill(time: number = Date.now()): void {
+    this.lastFillTime = time;
+  }
+
+  /**
+   * 1-minute realized volatility in basis points (null while warming up)
+   */
+  getVolatilityBp(): number | null {
+    if (this.samples.length < MIN_SAMPLES) {
+      return null;
+    }
+
+    let sumSquares = 0;
+    let elapsedSec = 0;
+    for (let i = 1; i < this.samples.length; i++) {
+      const r = Math.log(this.samples[i].price / this.samples[i - 1].price);
+      sumSquares += r * r;
+      elapsedSec += (this.samples[i].time - this.samples[i - 1].time) / 1000;
+    }
+
+    if (elapsedSec <= 0) {
+      return null;
+    }
+
+    // Variance per second scaled to one minute
+    return Math.sqrt((sumSquares / elapsedSec) * 60) * 10000;
+  }
+
+  /**
+   * Extra distance from a recent fill, decaying linearly to zero
+   */
+  getFillWidenBp(now: number = Date.now()): number {
+    if (this.lastFillTime === null || this.config.fillWidenDecaySec <= 0) {
+      return 0;
+    }
+    const remaining = 1 - (now - this.lastFillTime) / (this.config.fillWidenDecaySec * 1000);
+    return remaining > 0 ? this.config.fillWidenBp * remaining : 0;
+  }
+
+  /**
+   * Target distance for a ladder level
+   * Scales the configured distance by volatility / reference, adds fill widening,
+   * and keeps the result inside the level's [minDistanceBp, maxDistanceBp] band
+   */
+  getTargetDistanceBp(level: QuoteLevel, now: number = Date.now()): number {
+    if (!this.config.enabled) {
+      return level.distanceBp;
+    }
+
+    const volatility = this.getVolatilityBp();
+    const factor = volatility === null || this.config.volReferenceBp <= 0
+      ? 1
+      : Math.min(MAX_FACTOR, Math.max(MIN_FACTOR, volatility / this.config.volReferenceBp));
+
+    const raw = level.distanceBp * factor + this.getFillWidenBp(now);
+    const margin = (level.maxDistanceBp - level.minDistanceBp) * BAND_MARGIN;
+    const target = Math.min(level.maxDistanceBp - margin, Math.max(level.minDistanceBp + margin, raw));
+
+    return Math.round(target * 10) / 10;
+  }
+}
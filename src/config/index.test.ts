@@ -0,0 +1,185 @@
+import { afterAll, afterEach, describe, expect, it } from 'bun:test';
+import dotenv from 'dotenv';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { AccountConfig } from '../types';
+
+type ConfigModule = typeof import('./index');
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'config-test-'));
+const envFile = path.join(dir, '.env');
+const loadedKeys = new Set<string>();
+let instance = 0;
+
+/**
+ * A config module of its own, loaded from an env file with the given content
+ * (the module reads the env file on import and test files share one module registry)
+ */
+async function loadConfig(content: string): Promise<ConfigModule> {
+  writeEnv(content);
+  process.env.ENV_FILE = envFile;
+  const module: ConfigModule = await import(`./index.ts?instance=${++instance}`);
+  delete process.env.ENV_FILE;
+  return module;
+}
+
+function writeEnv(content: string): void {
+  fs.writeFileSync(envFile, content);
+  Object.keys(dotenv.parse(content)).forEach(key => loadedKeys.add(key));
+}
+
+const account = (trading: any): AccountConfig => ({ name: 'A1', privateKey: '', address: '0x1', chain: 'bsc', trading });
+
+afterEach(() => {
+  loadedKeys.forEach(key => delete process.env[key]);
+  loadedKeys.clear();
+});
+
+afterAll(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('getAccountTradingConfig', () => {
+  const env = [
+    'TRADING_SYMBOLS=BTC-USD,ETH-USD',
+    'TRADING_LEVELS=[{"distanceBp":12,"sizeBtc":0.001},{"distanceBp":20,"sizeBtc":0.002}]',
+    'TRADING_SYMBOL_OVERRIDES={"ETH-USD":{"mode":"sell","orderDistanceBp":18,"minDistanceBp":15}}'
+  ].join('\n');
+
+  it('uses the global ladder and symbol overrides without account settings', async () => {
+    const config = await loadConfig(env);
+    const [btc, eth] = config.getMarketConfigs(config.getAccountTradingConfig(account(undefined)));
+
+    expect(btc.levels).toHaveLength(2);
+    expect(eth.mode).toBe('sell');
+    expect(eth.minDistanceBp).toBe(15);
+  });
+
+  it('applies account settings after symbol overrides', async () => {
+    const config = await loadConfig(env);
+    const [btc, eth] = config.getMarketConfigs(config.getAccountTradingConfig(account({ mode: 'buy', minDistanceBp: 8 })));
+
+    expect(btc.mode).toBe('buy');
+    expect(eth.mode).toBe('buy');
+    expect(eth.minDistanceBp).toBe(8);
+    expect(eth.orderDistanceBp).toBe(18);
+    expect(eth.levels).toHaveLength(2);
+  });
+
+  it('quotes a single level from an account distance or size instead of the ladder', async () => {
+    const config = await loadConfig(env);
+    const markets = config.getMarketConfigs(config.getAccountTradingConfig(account({ orderDistanceBp: 15, orderSizeBtc: 0.003 })));
+
+    for (const market of markets) {
+      expect(config.getQuoteLevels(market).map(({ distanceBp, sizeBtc }) => ({ distanceBp, sizeBtc }))).toEqual([{ distanceBp: 15, sizeBtc: 0.003 }]);
+    }
+  });
+
+  it('uses an account ladder for every symbol', async () => {
+    const config = await loadConfig(env);
+    const levels = [{ distanceBp: 16, sizeBtc: 0.004 }];
+    const markets = config.getMarketConfigs(config.getAccountTradingConfig(account({ levels })));
+
+    expect(markets.map(market => market.levels)).toEqual([levels, levels]);
+  });
+
+  it('reads account ladders from ACCOUNT_N_LEVELS and rejects overrides without effect', async () => {
+    const config = await loadConfig([
+      'ACCOUNT_1_PRIVATE_KEY=0xabc',
+      'ACCOUNT_1_ADDRESS=0x1',
+      'ACCOUNT_1_LEVELS=[{"distanceBp":14,"sizeBtc":0.002}]'
+    ].join('\n'));
+    expect(config.getAccounts()[0].trading?.levels).toEqual([{ distanceBp: 14, sizeBtc: 0.002 }]);
+
+    const accounts = (trading: any) => `ACCOUNTS=${JSON.stringify([{ name: 'A1', privateKey: '0xabc', address: '0x1', trading }])}`;
+    writeEnv(accounts({ levels: [{ distanceBp: 14, sizeBtc: 0.002 }], orderSizeBtc: 0.01 }));
+    expect(() => config.reloadConfig()).toThrow('orderSizeBtc has no effect together with levels');
+
+    writeEnv(accounts({ levels: [{ distanceBp: -1, sizeBtc: 0.002 }] }));
+    expect(() => config.reloadConfig()).toThrow('Account A1: levels level 0: distanceBp must be a positive number');
+  });
+});
+
+describe('reloadConfig', () => {
+  const levels = 'TRADING_LEVELS=[{"distanceBp":12,"sizeBtc":0.001}]';
+
+  it('restores defaults for keys removed from the env file', async () => {
+    const config = await loadConfig([levels, 'TRADING_MODE=buy'].join('\n'));
+    expect(config.getConfig().trading.levels).toHaveLength(1);
+
+    writeEnv('TRADING_MODE=sell');
+    const next = config.reloadConfig();
+
+    expect(next.trading.levels).toEqual([]);
+    expect(next.trading.mode).toBe('sell');
+    expect(process.env.TRADING_LEVELS).toBeUndefined();
+  });
+
+  it('keeps variables set outside the env file', async () => {
+    process.env.TRADING_MODE = 'sell';
+    loadedKeys.add('TRADING_MODE');
+    const config = await loadConfig('TRADING_MODE=buy');
+    expect(config.getConfig().trading.mode).toBe('sell');
+
+    writeEnv(levels);
+    expect(config.reloadConfig().trading.mode).toBe('sell');
+    expect(process.env.TRADING_MODE).toBe('sell');
+  });
+
+  it('keeps the previous environment when the new file is invalid', async () => {
+    const config = await loadConfig([levels, 'TRADING_MODE=buy'].join('\n'));
+
+    writeEnv('TRADING_MODE=sideways');
+    expect(() => config.reloadConfig()).toThrow();
+
+    expect(process.env.TRADING_LEVELS).toBe(levels.slice('TRADING_LEVELS='.length));
+    expect(config.getConfig().trading.levels).toHaveLength(1);
+
+    // The keys still come from the file: removing them later restores the defaults
+    writeEnv('TRADING_MODE=sell');
+    expect(config.reloadConfig().trading.levels).toEqual([]);
+  });
+
+  it('rejects request rates that are not positive', async () => {
+    const config = await loadConfig('RATE_LIMIT_ORDER_PER_SEC=2');
+
+    for (const rate of ['0', '-1']) {
+      writeEnv(`RATE_LIMIT_ORDER_PER_SEC=${rate}`);
+      expect(() => config.reloadConfig()).toThrow('must be a positive number');
+    }
+    expect(config.getConfig().rateLimit.order.perSec).toBe(2);
+  });
+
+  it('rejects a blackout calendar with an invalid entry before applying anything', async () => {
+    const calendar = path.join(dir, 'blackouts.json');
+    fs.writeFileSync(calendar, JSON.stringify(['2026-01-28T19:00:00Z']));
+    const config = await loadConfig(`TRADING_BLACKOUT_FILE=${calendar}`);
+
+    fs.writeFileSync(calendar, JSON.stringify([{ name: 'FOMC' }]));
+    writeEnv(`TRADING_BLACKOUT_FILE=${calendar}\nTRADING_MODE=sell`);
+    expect(() => config.reloadConfig()).toThrow('entry 0 has an invalid time');
+    expect(config.getConfig().trading.mode).toBe('both');
+
+    fs.writeFileSync(calendar, JSON.stringify([{ time: '2026-01-28T19:00:00Z', name: 'FOMC' }]));
+    expect(config.reloadConfig().trading.mode).toBe('sell');
+  });
+});
+
+describe('diffConfig', () => {
+  it('matches accounts by name and only needs a restart for their credentials', async () => {
+    const config = await loadConfig('');
+    const before = [account({ mode: 'buy' }), { ...account(undefined), name: 'A2' }];
+    const after = [{ ...account({ mode: 'sell', symbols: ['ETH-USD'] }), signer: 'unix:/run/signer.sock' }, { ...account(undefined), name: 'A3' }];
+
+    const changes = config.diffConfig({ accounts: before }, { accounts: after });
+
+    expect(changes.map(change => [change.path, change.restartOnly])).toEqual([
+      ['accounts.A1.trading.mode', false],
+      ['accounts.A1.trading.symbols', true],
+      ['accounts.A1.signer', true],
+      ['accounts.A2', true],
+      ['accounts.A3', true]
+    ]);
+  });
+});
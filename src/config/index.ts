@@ -1,40 +1,162 @@
 import convict from 'convict';
 import dotenv from 'dotenv';
-import { Config, TradingMode, AccountConfig } from '../types';
+import { Config, TradingMode, ClosePolicy, AccountConfig, AccountTradingOverride, TradingConfig, MarketConfig, MarketOverride, QuoteLevel, QuoteLevelConfig, PointsTier, ScheduleConfig, BlackoutEvent } from '../types';
 import path from 'path';
+import fs from 'fs';
 
 // Determine which .env file to load
 // Can be specified via ENV_FILE environment variable
 const envFile = process.env.ENV_FILE || path.join(process.cwd(), '.env');
 
+// Variables set outside the file win over it, also on hot reload (same as dotenv's default)
+const externalEnv = new Set(Object.keys(process.env));
+
 // Load .env file
-dotenv.config({ path: envFile });
+const loaded = dotenv.config({ path: envFile });
+
+// Keys set by the file, so hot reload can drop the ones removed from it (back to their defaults)
+let fileKeys = Object.keys(loaded.parsed ?? {}).filter(key => !externalEnv.has(key));
 
 console.log(`[Config] Loading env from: ${envFile}`);
 
+/**
+ * Check a ladder (TRADING_LEVELS or an account's levels) before it is used
+ */
+function validateQuoteLevels(levels: any): void {
+  if (!Array.isArray(levels)) {
+    throw new Error('must be an array of levels');
+  }
+  levels.forEach((level: QuoteLevelConfig, i: number) => {
+    if (typeof level.distanceBp !== 'number' || level.distanceBp <= 0) {
+      throw new Error(`level ${i}: distanceBp must be a positive number`);
+    }
+    if (typeof level.sizeBtc !== 'number' || level.sizeBtc <= 0) {
+      throw new Error(`level ${i}: sizeBtc must be a positive number`);
+    }
+  });
+}
+
+/**
+ * Validate per-account trading overrides
+ * Accepts "symbol" (string or comma-separated list) as an alias for "symbols"
+ * and "levels" as an array or its JSON string (ACCOUNT_N_LEVELS)
+ */
+function parseAccountTrading(raw: any, name: string): AccountTradingOverride | undefined {
+  if (raw === undefined || raw === null) {
+    return undefined;
+  }
+  if (typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error(`[Config] Account ${name}: trading overrides must be an object`);
+  }
+
+  const override: AccountTradingOverride = {};
+
+  const symbols = raw.symbols ?? raw.symbol;
+  if (symbols !== undefined) {
+    const list = Array.isArray(symbols) ? symbols : String(symbols).split(',');
+    override.symbols = list.map((s: any) => String(s).trim()).filter((s: string) => s.length > 0);
+    if (override.symbols.length === 0) {
+      throw new Error(`[Config] Account ${name}: symbol must not be empty`);
+    }
+  }
+
+  if (raw.closePolicy !== undefined) {
+    if (!['aggressive', 'passive'].includes(raw.closePolicy)) {
+      throw new Error(`[Config] Account ${name}: closePolicy must be aggressive or passive`);
+    }
+    override.closePolicy = raw.closePolicy as ClosePolicy;
+  }
+
+  if (raw.mode !== undefined) {
+    if (!['buy', 'sell', 'both'].includes(raw.mode)) {
+      throw new Error(`[Config] Account ${name}: mode must be one of buy, sell, both`);
+    }
+    override.mode = raw.mode as TradingMode;
+  }
+
+  for (const key of ['orderSizeBtc', 'orderDistanceBp', 'minDistanceBp', 'maxDistanceBp'] as const) {
+    if (raw[key] === undefined) {
+      continue;
+    }
+    const value = Number(raw[key]);
+    if (!Number.isFinite(value) || value <= 0) {
+      throw new Error(`[Config] Account ${name}: ${key} must be a positive number`);
+    }
+    override[key] = value;
+  }
+
+  if (raw.levels !== undefined) {
+    try {
+      const levels = typeof raw.levels === 'string' ? JSON.parse(raw.levels) : raw.levels;
+      validateQuoteLevels(levels);
+      override.levels = levels;
+    } catch (error: any) {
+      throw new Error(`[Config] Account ${name}: levels ${error.message}`);
+    }
+  }
+
+  // The account's own ladder sets the size of every level
+  if (override.levels && override.levels.length > 0 && override.orderSizeBtc !== undefined) {
+    throw new Error(`[Config] Account ${name}: orderSizeBtc has no effect together with levels; set sizeBtc per level`);
+  }
+
+  return Object.keys(override).length > 0 ? override : undefined;
+}
+
+/**
+ * Read ACCOUNT_N_* trading overrides into the shape used by ACCOUNTS JSON
+ */
+function readAccountTradingEnv(i: number): Record<string, string> | undefined {
+  const vars: Record<string, string | undefined> = {
+    symbol: process.env[`ACCOUNT_${i}_SYMBOL`],
+    mode: process.env[`ACCOUNT_${i}_MODE`],
+    orderSizeBtc: process.env[`ACCOUNT_${i}_ORDER_SIZE_BTC`],
+    orderDistanceBp: process.env[`ACCOUNT_${i}_ORDER_DISTANCE_BP`],
+    minDistanceBp: process.env[`ACCOUNT_${i}_MIN_DISTANCE_BP`],
+    maxDistanceBp: process.env[`ACCOUNT_${i}_MAX_DISTANCE_BP`],
+    levels: process.env[`ACCOUNT_${i}_LEVELS`],
+    closePolicy: process.env[`ACCOUNT_${i}_CLOSE_POLICY`]
+  };
+
+  const set = Object.entries(vars).filter((entry): entry is [string, string] => entry[1] !== undefined && entry[1] !== '');
+  return set.length > 0 ? Object.fromEntries(set) : undefined;
+}
+
 /**
  * Parse accounts from environment variable
- * Format: ACCOUNTS=[{"name":"Account1","privateKey":"...","address":"..."},{"name":"Account2",...}]
- * Or use individual variables: ACCOUNT_1_NAME, ACCOUNT_1_PRIVATE_KEY, ACCOUNT_1_ADDRESS, etc.
+ * Format: ACCOUNTS=[{"name":"Account1","privateKey":"...","address":"...","trading":{"mode":"buy"}},{"name":"Account2",...}]
+ * Or use individual variables: ACCOUNT_1_NAME, ACCOUNT_1_PRIVATE_KEY, ACCOUNT_1_ADDRESS, ACCOUNT_1_MODE, etc.
+ * Instead of a private key an account can reference an encrypted keystore (keystore/keystorePassphrase,
+ * ACCOUNT_N_KEYSTORE/ACCOUNT_N_KEYSTORE_PASSPHRASE), decrypted at start by unlockAccounts(),
+ * or an external signing daemon (signer, ACCOUNT_N_SIGNER) that keeps the key off this host
  */
 function parseAccounts(): AccountConfig[] {
   // Try JSON format first
   const accountsJson = process.env.ACCOUNTS;
   if (accountsJson) {
+    let accounts: any;
     try {
-      const accounts = JSON.parse(accountsJson);
-      if (Array.isArray(accounts) && accounts.length > 0) {
-        console.log(`[Config] Loaded ${accounts.length} accounts from ACCOUNTS JSON`);
-        return accounts.map((acc: any) => ({
-          name: acc.name || acc.id || `Account-${acc.address?.slice(0, 8)}`,
-          privateKey: acc.privateKey,
-          address: acc.address,
-          chain: acc.chain || 'bsc'
-        }));
-      }
+      accounts = JSON.parse(accountsJson);
     } catch (e) {
       console.warn('[Config] Failed to parse ACCOUNTS JSON, trying individual variables...');
     }
+
+    if (Array.isArray(accounts) && accounts.length > 0) {
+      console.log(`[Config] Loaded ${accounts.length} accounts from ACCOUNTS JSON`);
+      return accounts.map((acc: any) => {
+        const name = acc.name || acc.id || `Account-${acc.address?.slice(0, 8)}`;
+        return {
+          name,
+          privateKey: acc.privateKey || '',
+          address: acc.address,
+          chain: acc.chain || 'bsc',
+          keystore: acc.keystore,
+          keystorePassphrase: acc.keystorePassphrase,
+          signer: acc.signer,
+          trading: parseAccountTrading(acc.trading, name)
+        };
+      });
+    }
   }
 
   // Try individual account variables (fallback and legacy single account)
@@ -42,15 +164,20 @@ function parseAccounts(): AccountConfig[] {
 
   // Check for legacy single account format
   const legacyKey = process.env.STANDX_WALLET_PRIVATE_KEY;
+  const legacyKeystore = process.env.STANDX_WALLET_KEYSTORE;
+  const legacySigner = process.env.STANDX_WALLET_SIGNER;
   const legacyAddress = process.env.STANDX_WALLET_ADDRESS;
   const legacyChain = process.env.STANDX_CHAIN || 'bsc';
 
-  if (legacyKey && legacyAddress) {
+  if ((legacyKey || legacyKeystore || legacySigner) && legacyAddress) {
     accounts.push({
       name: process.env.ACCOUNT_NAME || 'Account-1',
-      privateKey: legacyKey,
+      privateKey: legacyKey || '',
       address: legacyAddress,
-      chain: legacyChain as 'bsc' | 'solana'
+      chain: legacyChain as 'bsc' | 'solana',
+      keystore: legacyKeystore,
+      keystorePassphrase: process.env.STANDX_WALLET_KEYSTORE_PASSPHRASE,
+      signer: legacySigner
     });
     console.log(`[Config] Loaded account from legacy format (STANDX_WALLET_*)`);
   }
@@ -60,25 +187,31 @@ function parseAccounts(): AccountConfig[] {
   while (true) {
     const name = process.env[`ACCOUNT_${i}_NAME`] || `Account-${i}`;
     const privateKey = process.env[`ACCOUNT_${i}_PRIVATE_KEY`];
+    const keystore = process.env[`ACCOUNT_${i}_KEYSTORE`];
+    const signer = process.env[`ACCOUNT_${i}_SIGNER`];
     const address = process.env[`ACCOUNT_${i}_ADDRESS`];
     const chain = process.env[`ACCOUNT_${i}_CHAIN`] || 'bsc';
 
-    if (!privateKey || !address) {
+    if (!(privateKey || keystore || signer) || !address) {
       break;
     }
 
     accounts.push({
       name,
-      privateKey,
+      privateKey: privateKey || '',
       address,
-      chain: chain as 'bsc' | 'solana'
+      chain: chain as 'bsc' | 'solana',
+      keystore,
+      keystorePassphrase: process.env[`ACCOUNT_${i}_KEYSTORE_PASSPHRASE`],
+      signer,
+      trading: parseAccountTrading(readAccountTradingEnv(i), name)
     });
 
     i++;
   }
 
   // If we found numbered accounts and they're different from legacy, use them
-  if (i > 1 && (accounts.length > 1 || !legacyKey)) {
+  if (i > 1 && (accounts.length > 1 || !(legacyKey || legacyKeystore || legacySigner))) {
     console.log(`[Config] Loaded ${accounts.length} accounts from numbered variables (ACCOUNT_N_*)`);
   }
 
@@ -89,8 +222,66 @@ function parseAccounts(): AccountConfig[] {
   return accounts;
 }
 
+// Ladder levels are passed as a JSON array in TRADING_LEVELS
+convict.addFormat({
+  name: 'quote-levels',
+  validate: validateQuoteLevels,
+  coerce(value: string) {
+    return JSON.parse(value);
+  }
+});
+
+// Points scoring tiers are passed as a JSON array in POINTS_TIERS
+convict.addFormat({
+  name: 'points-tiers',
+  validate(tiers: any) {
+    if (!Array.isArray(tiers)) {
+      throw new Error('must be an array of tiers');
+    }
+    tiers.forEach((tier: PointsTier, i: number) => {
+      if (typeof tier.maxDistanceBp !== 'number' || tier.maxDistanceBp <= 0) {
+        throw new Error(`tier ${i}: maxDistanceBp must be a positive number`);
+      }
+      if (typeof tier.weight !== 'number' || tier.weight < 0) {
+        throw new Error(`tier ${i}: weight must be a non-negative number`);
+      }
+    });
+  },
+  coerce(value: string) {
+    return JSON.parse(value);
+  }
+});
+
+// Rates that are divided by, like rate limits per second
+convict.addFormat({
+  name: 'positive-number',
+  validate(value: any) {
+    if (typeof value !== 'number' || !(value > 0)) {
+      throw new Error('must be a positive number');
+    }
+  },
+  coerce(value: string) {
+    return Number(value);
+  }
+});
+
+// Trading windows are passed as comma-separated UTC ranges in TRADING_ACTIVE_HOURS
+convict.addFormat({
+  name: 'utc-windows',
+  validate(value: any) {
+    if (typeof value !== 'string') {
+      throw new Error('must be a string');
+    }
+    for (const window of value.split(',').map(w => w.trim()).filter(w => w.length > 0)) {
+      if (!/^([01]\d|2[0-3]):[0-5]\d-([01]\d|2[0-3]|24):[0-5]\d$/.test(window)) {
+        throw new Error(`invalid window "${window}", expected HH:MM-HH:MM`);
+      }
+    }
+  }
+});
+
 // Define configuration schema
-const config = convict({
+const schema: convict.Schema<Config> = {
   accounts: {
     doc: 'Trading accounts',
     format: Array,
@@ -103,6 +294,18 @@ const config = convict({
       default: 'BTC-USD',
       env: 'TRADING_SYMBOL'
     },
+    symbols: {
+      doc: 'Comma-separated symbols to quote from each account (empty = TRADING_SYMBOL only)',
+      format: Array,
+      default: [],
+      env: 'TRADING_SYMBOLS'
+    },
+    symbolOverrides: {
+      doc: 'Per-symbol settings as JSON, e.g. {"ETH-USD":{"orderSizeBtc":0.01,"orderDistanceBp":15}}',
+      format: Object,
+      default: {},
+      env: 'TRADING_SYMBOL_OVERRIDES'
+    },
     mode: {
       doc: 'Trading mode (both, buy, sell)',
       format: ['both', 'buy', 'sell'],
@@ -132,6 +335,226 @@ const config = convict({
       format: Number,
       default: 30,
       env: 'TRADING_MAX_DISTANCE_BP'
+    },
+    levels: {
+      doc: 'Order ladder per side as JSON, e.g. [{"distanceBp":12,"sizeBtc":0.0001}]. Empty = single level from orderDistanceBp/orderSizeBtc',
+      format: 'quote-levels',
+      default: [],
+      env: 'TRADING_LEVELS'
+    },
+    strategy: {
+      doc: 'Quoting strategy: a registered name (default) or a module path such as ./strategies/my-strategy.ts',
+      format: String,
+      default: 'default',
+      env: 'TRADING_STRATEGY'
+    },
+    partialFillPolicy: {
+      doc: 'After a partial fill: cancel the unfilled remainder or keep it resting',
+      format: ['cancel', 'keep'],
+      default: 'cancel',
+      env: 'TRADING_PARTIAL_FILL_POLICY'
+    },
+    closePolicy: {
+      doc: 'How fills are closed: aggressive = reduce-only market order, passive = reduce-only limit at the touch, escalating to market',
+      format: ['aggressive', 'passive'],
+      default: 'aggressive',
+      env: 'TRADING_CLOSE_POLICY'
+    },
+    passiveClose: {
+      repriceSec: {
+        doc: 'Seconds each passive close order rests before it is repriced',
+        format: 'nat',
+        default: 5,
+        env: 'TRADING_PASSIVE_CLOSE_REPRICE_SEC'
+      },
+      maxReprices: {
+        doc: 'Passive close orders posted before escalating to a market order',
+        format: 'nat',
+        default: 3,
+        env: 'TRADING_PASSIVE_CLOSE_MAX_REPRICES'
+      },
+      timeoutSec: {
+        doc: 'Seconds before a passive close escalates to a market order',
+        format: 'nat',
+        default: 20,
+        env: 'TRADING_PASSIVE_CLOSE_TIMEOUT_SEC'
+      },
+      maxAdverseBp: {
+        doc: 'Escalate a passive close to market when price moves this many basis points against the position',
+        format: Number,
+        default: 10,
+        env: 'TRADING_PASSIVE_CLOSE_MAX_ADVERSE_BP'
+      },
+      throughTicks: {
+        doc: 'Ticks inside the same-side best price for passive close orders (0 = join the touch)',
+        format: 'nat',
+        default: 0,
+        env: 'TRADING_PASSIVE_CLOSE_THROUGH_TICKS'
+      }
+    },
+    adaptiveDistance: {
+      enabled: {
+        doc: 'Scale order distance with realized volatility of the mark price',
+        format: Boolean,
+        default: false,
+        env: 'TRADING_ADAPTIVE_DISTANCE'
+      },
+      volWindowSec: {
+        doc: 'Rolling window for realized volatility in seconds',
+        format: 'nat',
+        default: 300,
+        env: 'TRADING_VOL_WINDOW_SEC'
+      },
+      volReferenceBp: {
+        doc: '1-minute realized volatility (bp) at which configured distances apply unchanged',
+        format: Number,
+        default: 5,
+        env: 'TRADING_VOL_REFERENCE_BP'
+      },
+      fillWidenBp: {
+        doc: 'Extra distance in basis points right after a fill',
+        format: Number,
+        default: 5,
+        env: 'TRADING_FILL_WIDEN_BP'
+      },
+      fillWidenDecaySec: {
+        doc: 'Seconds for the post-fill widening to decay to zero',
+        format: 'nat',
+        default: 300,
+        env: 'TRADING_FILL_WIDEN_DECAY_SEC'
+      },
+      repriceToleranceBp: {
+        doc: 'Replace orders whose distance is further than this from the adaptive target',
+        format: Number,
+        default: 5,
+        env: 'TRADING_ADAPTIVE_REPRICE_BP'
+      }
+    },
+    inventory: {
+      enabled: {
+        doc: 'Hold a bounded position after fills instead of closing it with a market order',
+        format: Boolean,
+        default: false,
+        env: 'TRADING_INVENTORY_MODE'
+      },
+      maxPosition: {
+        doc: 'Absolute position (base asset) above which the position is market-closed',
+        format: Number,
+        default: 0.05,
+        env: 'TRADING_INVENTORY_MAX_POSITION'
+      },
+      maxAgeSec: {
+        doc: 'Seconds a position may be held before it is market-closed',
+        format: 'nat',
+        default: 600,
+        env: 'TRADING_INVENTORY_MAX_AGE_SEC'
+      },
+      skewBp: {
+        doc: 'Extra distance in basis points on the side that grows the position, at full inventory',
+        format: Number,
+        default: 5,
+        env: 'TRADING_INVENTORY_SKEW_BP'
+      },
+      unwindDistanceBp: {
+        doc: 'Distance from mark of the passive reduce-only unwind order',
+        format: Number,
+        default: 2,
+        env: 'TRADING_INVENTORY_UNWIND_BP'
+      }
+    },
+    circuitBreaker: {
+      enabled: {
+        doc: 'Escalate cooldown, distance, one-sided quoting and halt as fills pile up in the window',
+        format: Boolean,
+        default: false,
+        env: 'TRADING_BREAKER_ENABLED'
+      },
+      windowSec: {
+        doc: 'Sliding window in seconds for counting fills and close losses',
+        format: 'nat',
+        default: 600,
+        env: 'TRADING_BREAKER_WINDOW_SEC'
+      },
+      cooldownSec: {
+        doc: 'Seconds to wait after a fill before requoting',
+        format: 'nat',
+        default: 10,
+        env: 'TRADING_FILL_COOLDOWN_SEC'
+      },
+      cooldownMultiplier: {
+        doc: 'Cooldown multiplier per additional fill in the window',
+        format: Number,
+        default: 2,
+        env: 'TRADING_BREAKER_COOLDOWN_MULTIPLIER'
+      },
+      maxCooldownSec: {
+        doc: 'Upper bound for the escalated cooldown',
+        format: 'nat',
+        default: 300,
+        env: 'TRADING_BREAKER_MAX_COOLDOWN_SEC'
+      },
+      widenFills: {
+        doc: 'Fills in the window that widen all distances (0 = off)',
+        format: 'nat',
+        default: 2,
+        env: 'TRADING_BREAKER_WIDEN_FILLS'
+      },
+      widenBp: {
+        doc: 'Extra distance in basis points while widened',
+        format: Number,
+        default: 5,
+        env: 'TRADING_BREAKER_WIDEN_BP'
+      },
+      oneSidedFills: {
+        doc: 'Fills in the window that stop quoting the side being filled (0 = off)',
+        format: 'nat',
+        default: 3,
+        env: 'TRADING_BREAKER_ONE_SIDED_FILLS'
+      },
+      haltFills: {
+        doc: 'Fills in the window that halt the account (0 = off)',
+        format: 'nat',
+        default: 5,
+        env: 'TRADING_BREAKER_HALT_FILLS'
+      },
+      haltLossUsd: {
+        doc: 'Estimated close loss in USD within the window that halts the account (0 = off)',
+        format: Number,
+        default: 20,
+        env: 'TRADING_BREAKER_HALT_LOSS_USD'
+      }
+    },
+    schedule: {
+      activeHours: {
+        doc: 'UTC trading windows, e.g. "08:00-16:00,20:00-02:00". Empty = trade around the clock',
+        format: 'utc-windows',
+        default: '',
+        env: 'TRADING_ACTIVE_HOURS'
+      },
+      blackoutFile: {
+        doc: 'Path to a JSON blackout calendar (event timestamps). Empty = no blackouts',
+        format: String,
+        default: '',
+        env: 'TRADING_BLACKOUT_FILE'
+      },
+      blackoutBeforeMin: {
+        doc: 'Minutes before each blackout event to stop quoting',
+        format: 'nat',
+        default: 5,
+        env: 'TRADING_BLACKOUT_BEFORE_MIN'
+      },
+      blackoutAfterMin: {
+        doc: 'Minutes after each blackout event before quoting resumes',
+        format: 'nat',
+        default: 15,
+        env: 'TRADING_BLACKOUT_AFTER_MIN'
+      }
+    },
+    positionReconcileSec: {
+      doc: 'Seconds between REST position reconciliations; in between the position comes from WebSocket (0 = query on every check)',
+      format: 'nat',
+      default: 30,
+      env: 'TRADING_POSITION_RECONCILE_SEC'
     }
   },
   telegram: {
@@ -152,6 +575,188 @@ const config = convict({
       format: Boolean,
       default: true,
       env: 'TELEGRAM_ENABLED'
+    },
+    statusIntervalMin: {
+      doc: 'Minutes between Telegram status messages (0 = disabled)',
+      format: 'nat',
+      default: 60,
+      env: 'TELEGRAM_STATUS_INTERVAL_MIN'
+    }
+  },
+  points: {
+    tiers: {
+      doc: 'Maker points scoring band as JSON, e.g. [{"maxDistanceBp":10,"weight":1}]. Orders beyond the last tier score nothing',
+      format: 'points-tiers',
+      default: [
+        { maxDistanceBp: 10, weight: 1 },
+        { maxDistanceBp: 30, weight: 0.5 },
+        { maxDistanceBp: 100, weight: 0.1 }
+      ],
+      env: 'POINTS_TIERS'
+    }
+  },
+  store: {
+    enabled: {
+      doc: 'Persist stats, order IDs, breaker state and position per account to reload them on restart',
+      format: Boolean,
+      default: true,
+      env: 'STATE_STORE_ENABLED'
+    },
+    dir: {
+      doc: 'Directory for the per-account state files',
+      format: String,
+      default: 'data',
+      env: 'STATE_DIR'
+    },
+    saveIntervalSec: {
+      doc: 'Seconds between state saves (also saved after fills and on stop)',
+      format: 'nat',
+      default: 5,
+      env: 'STATE_SAVE_INTERVAL_SEC'
+    }
+  },
+  api: {
+    profile: {
+      doc: 'Endpoint profile: mainnet, testnet (staging, URLs must be set) or local (mock exchange)',
+      format: ['mainnet', 'testnet', 'local'],
+      default: 'mainnet',
+      env: 'API_PROFILE'
+    },
+    endpoints: {
+      authUrl: {
+        doc: 'Sign-in API base URL (empty = profile default)',
+        format: String,
+        default: '',
+        env: 'API_AUTH_URL'
+      },
+      restUrl: {
+        doc: 'Perps REST API base URL (empty = profile default)',
+        format: String,
+        default: '',
+        env: 'API_REST_URL'
+      },
+      marketStreamUrl: {
+        doc: 'Market data WebSocket URL (empty = profile default)',
+        format: String,
+        default: '',
+        env: 'API_MARKET_STREAM_URL'
+      },
+      orderStreamUrl: {
+        doc: 'Order WebSocket URL (empty = profile default)',
+        format: String,
+        default: '',
+        env: 'API_ORDER_STREAM_URL'
+      }
+    },
+    timeoutMs: {
+      doc: 'REST request timeout in milliseconds',
+      format: 'nat',
+      default: 10000,
+      env: 'API_TIMEOUT_MS'
+    },
+    retries: {
+      doc: 'Retries for idempotent REST calls (queries, cancels) after network errors, timeouts, 429 and 5xx',
+      format: 'nat',
+      default: 3,
+      env: 'API_RETRIES'
+    },
+    retryBaseMs: {
+      doc: 'Backoff before the first retry, doubled per attempt with full jitter',
+      format: 'nat',
+      default: 250,
+      env: 'API_RETRY_BASE_MS'
+    },
+    retryMaxMs: {
+      doc: 'Longest backoff between retries',
+      format: 'nat',
+      default: 4000,
+      env: 'API_RETRY_MAX_MS'
+    },
+    orderTransport: {
+      doc: 'Transport for new orders and cancels: rest, or websocket (ws-api order stream, falls back to REST)',
+      format: ['rest', 'websocket'],
+      default: 'rest',
+      env: 'API_ORDER_TRANSPORT'
+    },
+    wsOrderTimeoutMs: {
+      doc: 'Milliseconds to wait for an order stream response before falling back to REST',
+      format: 'nat',
+      default: 3000,
+      env: 'API_WS_ORDER_TIMEOUT_MS'
+    },
+    tokenTtlSec: {
+      doc: 'Access token lifetime requested at login (seconds)',
+      format: 'nat',
+      default: 604800,
+      env: 'API_TOKEN_TTL_SEC'
+    },
+    tokenRefreshMarginSec: {
+      doc: 'Sign in again this many seconds before the access token expires',
+      format: 'nat',
+      default: 3600,
+      env: 'API_TOKEN_REFRESH_MARGIN_SEC'
+    },
+    signerTimeoutMs: {
+      doc: 'Milliseconds to wait for an external signer to sign the login message',
+      format: 'nat',
+      default: 5000,
+      env: 'API_SIGNER_TIMEOUT_MS'
+    }
+  },
+  rateLimit: {
+    public: {
+      perSec: {
+        doc: 'Market data requests per second (all accounts together)',
+        format: 'positive-number',
+        default: 5,
+        env: 'RATE_LIMIT_PUBLIC_PER_SEC'
+      },
+      burst: {
+        doc: 'Market data burst size',
+        format: 'nat',
+        default: 10,
+        env: 'RATE_LIMIT_PUBLIC_BURST'
+      }
+    },
+    order: {
+      perSec: {
+        doc: 'Order entry and cancel requests per second (all accounts together)',
+        format: 'positive-number',
+        default: 10,
+        env: 'RATE_LIMIT_ORDER_PER_SEC'
+      },
+      burst: {
+        doc: 'Order entry and cancel burst size',
+        format: 'nat',
+        default: 20,
+        env: 'RATE_LIMIT_ORDER_BURST'
+      }
+    },
+    query: {
+      perSec: {
+        doc: 'Private query requests per second (all accounts together)',
+        format: 'positive-number',
+        default: 5,
+        env: 'RATE_LIMIT_QUERY_PER_SEC'
+      },
+      burst: {
+        doc: 'Private query burst size',
+        format: 'nat',
+        default: 10,
+        env: 'RATE_LIMIT_QUERY_BURST'
+      }
+    },
+    backoffSec: {
+      doc: 'Pause after a 429 response, doubled on repeats (Retry-After wins when sent)',
+      format: Number,
+      default: 1,
+      env: 'RATE_LIMIT_BACKOFF_SEC'
+    },
+    maxBackoffSec: {
+      doc: 'Longest pause after repeated 429 responses',
+      format: Number,
+      default: 30,
+      env: 'RATE_LIMIT_MAX_BACKOFF_SEC'
     }
   },
   logging: {
@@ -174,22 +779,285 @@ const config = convict({
       env: 'LOG_TO_CONSOLE'
     }
   }
-});
+};
 
-// Parse accounts from environment
-const parsedAccounts = parseAccounts();
-config.set('accounts', parsedAccounts);
+/**
+ * Build and validate the configuration from the current process.env
+ */
+function loadConfig() {
+  const loaded = convict(schema);
+  loaded.set('accounts', parseAccounts());
+  loaded.validate({ allowed: 'strict' });
+  return loaded;
+}
 
-// Validate and load configuration
-config.validate({ allowed: 'strict' });
+let config = loadConfig();
 
 // Export typed getters
 export function getConfig(): Config {
-  return config.get() as Config;
+  return config.get();
 }
 
 export function getAccounts(): AccountConfig[] {
-  return parsedAccounts;
+  return getConfig().accounts;
+}
+
+/**
+ * Re-read the env file and validate it against the schema
+ * Keys removed from the file fall back to their defaults; variables set outside the file are kept
+ * On success the new values are returned by getConfig() from now on; on failure the
+ * previous environment and config stay in place and the validation error is thrown
+ */
+export function reloadConfig(): Config {
+  const parsed = dotenv.parse(fs.readFileSync(envFile));
+  const keys = Object.keys(parsed).filter(key => !externalEnv.has(key));
+  const previousConfig = config;
+  const previous: Record<string, string | undefined> = {};
+  for (const key of new Set([...fileKeys, ...keys])) {
+    previous[key] = process.env[key];
+    if (parsed[key] === undefined) {
+      delete process.env[key];
+    } else {
+      process.env[key] = parsed[key];
+    }
+  }
+
+  try {
+    config = loadConfig();
+    const next = getConfig();
+
+    // Ladder levels are range-checked when bots build them, the blackout calendar is read by their
+    // schedule; catch bad values before anything changes
+    const accounts: (AccountConfig | undefined)[] = next.accounts.length > 0 ? next.accounts : [undefined];
+    for (const account of accounts) {
+      getMarketConfigs(account ? getAccountTradingConfig(account) : next.trading).forEach(getQuoteLevels);
+    }
+    getBlackoutEvents(next.trading.schedule);
+
+    fileKeys = keys;
+    return next;
+  } catch (error) {
+    config = previousConfig;
+    for (const [key, value] of Object.entries(previous)) {
+      if (value === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = value;
+      }
+    }
+    throw error;
+  }
+}
+
+/**
+ * Env file the config is loaded from (watched for hot reload)
+ */
+export function getEnvFile(): string {
+  return envFile;
+}
+
+// Settings that can't be applied to running bots (new symbols need subscriptions, the
+// strategy keeps per-market state, ...)
+const RESTART_ONLY = ['telegram', 'points', 'store', 'api', 'rateLimit', 'logging', 'trading.symbol', 'trading.symbols', 'trading.strategy'];
+
+// Account settings a bot only uses to log in and sign; its trading overrides are applied like TRADING_*
+const ACCOUNT_RESTART_ONLY = ['privateKey', 'address', 'chain', 'keystore', 'keystorePassphrase', 'signer'];
+
+/**
+ * One changed setting between two configs
+ */
+export interface ConfigChange {
+  path: string;
+  from: string;
+  to: string;
+  restartOnly: boolean;
+}
+
+/**
+ * Leaf-level differences between two configs (arrays compare as a whole, except accounts,
+ * which are matched by name)
+ */
+export function diffConfig(before: any, after: any, prefix: string = ''): ConfigChange[] {
+  const changes: ConfigChange[] = [];
+  const keys = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+
+  for (const key of keys) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    const from = before?.[key];
+    const to = after?.[key];
+
+    if (path === 'accounts') {
+      changes.push(...diffAccounts(from ?? [], to ?? []));
+      continue;
+    }
+
+    const nested = [from, to].every(v => v !== undefined && v !== null && typeof v === 'object' && !Array.isArray(v));
+
+    if (nested) {
+      changes.push(...diffConfig(from, to, path));
+    } else if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes.push({
+        path,
+        from: JSON.stringify(from),
+        to: JSON.stringify(to),
+        restartOnly: isRestartOnly(path)
+      });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Changes to the accounts list, as accounts.<name>.<setting>
+ * Adding or removing an account needs a restart, as do its credentials and signer
+ */
+function diffAccounts(before: AccountConfig[], after: AccountConfig[]): ConfigChange[] {
+  const changes: ConfigChange[] = [];
+  const names = new Set([...before, ...after].map(account => account.name));
+
+  for (const name of names) {
+    const path = `accounts.${name}`;
+    const from = before.find(account => account.name === name);
+    const to = after.find(account => account.name === name);
+
+    if (!from || !to) {
+      changes.push({ path, from: JSON.stringify(from), to: JSON.stringify(to), restartOnly: true });
+      continue;
+    }
+
+    for (const change of diffConfig(from, to)) {
+      changes.push({
+        ...change,
+        path: `${path}.${change.path}`,
+        restartOnly: ACCOUNT_RESTART_ONLY.includes(change.path.split('.')[0]) || isRestartOnly(change.path)
+      });
+    }
+  }
+
+  return changes;
+}
+
+function isRestartOnly(path: string): boolean {
+  return RESTART_ONLY.some(p => path === p || path.startsWith(`${p}.`));
+}
+
+/**
+ * Effective trading config for one account: TRADING_* with the account's overrides applied
+ * Account settings win over TRADING_SYMBOL_OVERRIDES too, so they are merged into every symbol's
+ * entry. An account that sets its own distance or size quotes a single level from them unless it
+ * also sets its own levels (a global or per-symbol ladder would otherwise ignore them)
+ */
+export function getAccountTradingConfig(account: AccountConfig): TradingConfig {
+  const trading = getConfig().trading;
+  if (!account.trading) {
+    return trading;
+  }
+
+  const { symbols, ...market } = account.trading;
+  const singleLevel = market.levels === undefined && (market.orderDistanceBp !== undefined || market.orderSizeBtc !== undefined);
+  const override: Omit<AccountTradingOverride, 'symbols'> = singleLevel ? { ...market, levels: [] } : market;
+
+  const symbolOverrides: Record<string, MarketOverride> = {};
+  for (const [symbol, symbolOverride] of Object.entries(trading.symbolOverrides)) {
+    symbolOverrides[symbol] = { ...symbolOverride, ...override };
+  }
+
+  return {
+    ...trading,
+    ...override,
+    ...(symbols ? { symbols } : {}),
+    symbolOverrides
+  };
+}
+
+/**
+ * Resolve the effective settings for every traded symbol
+ * Each symbol starts from the trading defaults and applies its entry in symbolOverrides
+ */
+export function getMarketConfigs(trading: TradingConfig): MarketConfig[] {
+  const symbols = trading.symbols.length > 0 ? trading.symbols : [trading.symbol];
+
+  return [...new Set(symbols)].map(symbol => {
+    const override = trading.symbolOverrides[symbol] || {};
+    return {
+      symbol,
+      mode: trading.mode,
+      orderSizeBtc: trading.orderSizeBtc,
+      orderDistanceBp: trading.orderDistanceBp,
+      minDistanceBp: trading.minDistanceBp,
+      maxDistanceBp: trading.maxDistanceBp,
+      levels: trading.levels,
+      strategy: trading.strategy,
+      partialFillPolicy: trading.partialFillPolicy,
+      closePolicy: trading.closePolicy,
+      ...override,
+      passiveClose: { ...trading.passiveClose, ...override.passiveClose },
+      adaptiveDistance: { ...trading.adaptiveDistance, ...override.adaptiveDistance },
+      inventory: { ...trading.inventory, ...override.inventory }
+    };
+  });
+}
+
+/**
+ * Resolve the order ladder for one side
+ * Falls back to a single level built from orderDistanceBp/orderSizeBtc when no levels are configured
+ */
+export function getQuoteLevels(market: MarketConfig): QuoteLevel[] {
+  const levels: QuoteLevelConfig[] = market.levels.length > 0
+    ? market.levels
+    : [{ distanceBp: market.orderDistanceBp, sizeBtc: market.orderSizeBtc }];
+
+  return levels.map((level, index) => {
+    const minDistanceBp = level.minDistanceBp ?? market.minDistanceBp;
+    const maxDistanceBp = level.maxDistanceBp ?? market.maxDistanceBp;
+
+    if (level.distanceBp < minDistanceBp || level.distanceBp > maxDistanceBp) {
+      throw new Error(
+        `[${market.symbol}] Level ${index} distance ${level.distanceBp} bp is outside its valid range [${minDistanceBp}-${maxDistanceBp} bp]`
+      );
+    }
+
+    return {
+      index,
+      distanceBp: level.distanceBp,
+      sizeBtc: level.sizeBtc,
+      minDistanceBp,
+      maxDistanceBp
+    };
+  });
+}
+
+/**
+ * Read the blackout calendar file of a schedule (no events without one)
+ * Throws if the file can't be read or an entry has no valid time
+ */
+export function getBlackoutEvents(schedule: ScheduleConfig): BlackoutEvent[] {
+  if (!schedule.blackoutFile) {
+    return [];
+  }
+
+  const file = path.resolve(process.cwd(), schedule.blackoutFile);
+  const raw = JSON.parse(fs.readFileSync(file, 'utf-8'));
+  if (!Array.isArray(raw)) {
+    throw new Error(`Blackout calendar ${file} must be a JSON array`);
+  }
+
+  return raw.map((entry: any, i: number) => {
+    const event = typeof entry === 'string' ? { time: entry } : entry;
+    const time = Date.parse(event.time);
+    if (Number.isNaN(time)) {
+      throw new Error(`Blackout calendar ${file}: entry ${i} has an invalid time "${event.time}"`);
+    }
+
+    const beforeMin = event.beforeMin ?? schedule.blackoutBeforeMin;
+    const afterMin = event.afterMin ?? schedule.blackoutAfterMin;
+    return {
+      name: event.name || new Date(time).toISOString(),
+      start: time - beforeMin * 60000,
+      end: time + afterMin * 60000
+    };
+  });
 }
 
-export default config;
+export default getConfig;
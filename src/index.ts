@@ -1,6 +1,13 @@
 import { MakerPointsBot } from './bot/maker-points-bot';
+import { loadQuotingStrategies } from './bot/quoting-strategy';
 import { log } from './utils/logger';
-import { getConfig, getAccounts } from './config';
+import { telegram } from './notify/telegram';
+import { rateLimiter } from './api/rate-limiter';
+import { resolveEndpoints } from './api/endpoints';
+import { unlockAccounts } from './api/keystore';
+import { AccountConfig, EndpointClass, OrderInfo } from './types';
+import fs from 'fs';
+import { getConfig, getAccounts, getAccountTradingConfig, getMarketConfigs, reloadConfig, getEnvFile, diffConfig } from './config';
 
 /**
  * Multi-account bot manager
@@ -9,6 +16,8 @@ import { getConfig, getAccounts } from './config';
 class BotManager {
   private bots: Map<string, MakerPointsBot> = new Map();
   private config = getConfig();
+  private isReloading: boolean = false;
+  private pendingReload: string | null = null;  // Trigger that arrived during a reload, run after it
 
   /**
    * Start all bots
@@ -31,32 +40,78 @@ class BotManager {
     console.log('╚════════════════════════════════════════╝');
     console.log('');
     console.log(`Configuration:`);
-    console.log(`  Symbol: ${this.config.trading.symbol}`);
+    const endpoints = resolveEndpoints(this.config.api);
+    console.log(`  API Profile: ${this.config.api.profile}`);
+    console.log(`    REST: ${endpoints.restUrl} | Auth: ${endpoints.authUrl}`);
+    console.log(`    Streams: ${endpoints.marketStreamUrl} | ${endpoints.orderStreamUrl}`);
+    console.log(`  Order Transport: ${this.config.api.orderTransport}${this.config.api.orderTransport === 'websocket' ? ' (REST fallback)' : ''}`);
+    console.log(`  Symbols: ${getMarketConfigs(this.config.trading).map(m => m.symbol).join(', ')}`);
     console.log(`  Mode: ${this.config.trading.mode}`);
     console.log(`  Order Size: ${this.config.trading.orderSizeBtc} BTC`);
     console.log(`  Target Distance: ${this.config.trading.orderDistanceBp} bp`);
     console.log(`  Valid Range: ${this.config.trading.minDistanceBp}-${this.config.trading.maxDistanceBp} bp`);
+    if (this.config.trading.inventory.enabled) {
+      console.log(`  Inventory: max ${this.config.trading.inventory.maxPosition} for ${this.config.trading.inventory.maxAgeSec}s`);
+    }
+    if (this.config.trading.schedule.activeHours) {
+      console.log(`  Active Hours: ${this.config.trading.schedule.activeHours} UTC`);
+    }
+    if (this.config.trading.schedule.blackoutFile) {
+      console.log(`  Blackout Calendar: ${this.config.trading.schedule.blackoutFile}`);
+    }
+    if (this.config.trading.levels.length > 0) {
+      console.log(`  Ladder: ${this.config.trading.levels.map(l => `${l.distanceBp}bp x ${l.sizeBtc}`).join(', ')}`);
+    }
+    for (const [symbol, override] of Object.entries(this.config.trading.symbolOverrides)) {
+      console.log(`  ${symbol} overrides: ${JSON.stringify(override)}`);
+    }
     console.log('');
     console.log(`Accounts: ${accounts.length}`);
     accounts.forEach(acc => {
       console.log(`  - ${acc.name}: ${acc.address.slice(0, 8)}...${acc.address.slice(-6)}`);
+      if (acc.trading) {
+        console.log(`    overrides: ${JSON.stringify(acc.trading)}`);
+      }
     });
     console.log('');
 
     // Validate each account has credentials
     for (const account of accounts) {
-      if (!account.privateKey || !account.address) {
+      if (!(account.privateKey || account.keystore || account.signer) || !account.address) {
         log.error(`Account ${account.name} is missing credentials`);
         process.exit(1);
       }
     }
 
-    // Create and start bots sequentially with a small delay between each
+    // Import strategy modules named in config; an unknown name stops here, before any login
+    try {
+      await loadQuotingStrategies(accounts.flatMap(account =>
+        getMarketConfigs(getAccountTradingConfig(account)).map(market => market.strategy)
+      ));
+    } catch (error: any) {
+      log.error(`Failed to load quoting strategy: ${error.message}`);
+      process.exit(1);
+    }
+
+    // Decrypt keystore-backed keys (kept in memory only)
+    let unlocked: AccountConfig[];
+    try {
+      unlocked = await unlockAccounts(accounts);
+    } catch (error: any) {
+      log.error(`Failed to unlock keystore: ${error.message}`);
+      process.exit(1);
+    }
+
+    // Create bots and run the pre-flight check: refuse to start if any key doesn't match its address
+    const bots = unlocked.map(account => new MakerPointsBot(account));
+    await this.preflight(bots);
+
+    // Start bots sequentially with a small delay between each
     for (let i = 0; i < accounts.length; i++) {
       const account = accounts[i];
       log.info(`[${account.name}] Starting bot ${i + 1}/${accounts.length}...`);
 
-      const bot = new MakerPointsBot(account);
+      const bot = bots[i];
       this.bots.set(account.name, bot);
 
       // Setup event handlers
@@ -83,6 +138,36 @@ class BotManager {
     this.startStatusUpdates();
   }
 
+  /**
+   * Pre-flight report: derived address, chain and test sign-in per account
+   * Exits on an unreadable key or an address mismatch; a failed sign-in is reported and
+   * retried when the bot starts
+   */
+  private async preflight(bots: MakerPointsBot[]): Promise<void> {
+    console.log('Pre-flight:');
+    const fatal: string[] = [];
+
+    for (const bot of bots) {
+      const result = await bot.preflight();
+      const status = !result.addressMatches ? '❌' : result.loggedIn ? '✅' : '⚠️ ';
+      console.log(`  ${status} ${result.account} [${result.chain}] ${result.derivedAddress ?? 'no address'} - login ${result.loggedIn ? 'OK' : 'FAILED'}`);
+      if (result.error) {
+        console.log(`     ${result.error}`);
+      }
+      if (!result.addressMatches) {
+        fatal.push(`${result.account}: ${result.error}`);
+      }
+    }
+    console.log('');
+
+    if (fatal.length > 0) {
+      log.error('Refusing to start, account address check failed:');
+      fatal.forEach(line => log.error(`  ${line}`));
+      await telegram.error(`Startup refused, account address check failed:\n${fatal.join('\n')}`);
+      process.exit(1);
+    }
+  }
+
   /**
    * Setup event handlers for a bot
    */
@@ -98,11 +183,19 @@ class BotManager {
     });
 
     bot.on('order_replaced', (data: any) => {
-      console.log(`[${accountId}] 🔄 ${data.side.toUpperCase()} order replaced`);
+      console.log(`[${accountId}] 🔄 ${data.symbol} ${data.side.toUpperCase()} order replaced`);
+    });
+
+    bot.on('circuit_breaker', (data: any) => {
+      console.log(`[${accountId}] ⚡ Circuit breaker: ${data.level.toUpperCase()}`);
+    });
+
+    bot.on('schedule_changed', (data: any) => {
+      console.log(`[${accountId}] 🗓️ Schedule: ${data.active ? 'trading resumed' : `paused (${data.reason})`}`);
     });
 
     bot.on('trade_executed', (data: any) => {
-      console.log(`[${accountId}] ⚠️  TRADE EXECUTED: ${data.side.toUpperCase()} ${data.qty} BTC @ $${data.price}`);
+      console.log(`[${accountId}] ⚠️  TRADE EXECUTED: ${data.symbol} ${data.side.toUpperCase()} ${data.qty} @ $${data.price}`);
     });
   }
 
@@ -121,25 +214,65 @@ class BotManager {
         if (bot.isRunning()) {
           const state = bot.getState();
           const uptime = bot.getUptime();
-          const buyOrderActive = state.buyOrder && state.buyOrder.status === 'OPEN';
-          const sellOrderActive = state.sellOrder && state.sellOrder.status === 'OPEN';
+          const formatLadder = (orders: (OrderInfo | null)[]) => {
+            const active = orders.filter(o => o && o.status === 'OPEN');
+            return active.length > 0
+              ? `${active.length}/${orders.length} @ ${active.map(o => `$${o!.price.toFixed(2)}`).join(', ')}`
+              : 'No';
+          };
 
           console.log(`${name}:`);
           console.log(`  Uptime: ${uptime}`);
-          console.log(`  Mark Price: $${state.markPrice.toFixed(2)}`);
-          console.log(`  Position: ${state.position.toFixed(4)} BTC`);
-          console.log(`  Buy Order: ${buyOrderActive ? `Yes @ $${state.buyOrder!.price.toFixed(2)}` : 'No'}`);
-          console.log(`  Sell Order: ${sellOrderActive ? `Yes @ $${state.sellOrder!.price.toFixed(2)}` : 'No'}`);
-          console.log(`  Placed: ${state.stats.ordersPlaced} | Canceled: ${state.stats.ordersCanceled} | Filled: ${state.stats.ordersFilled}`);
+          for (const market of Object.values(state.markets)) {
+            console.log(`  ${market.symbol}: ${market.phase} for ${Math.floor((Date.now() - market.phaseSince) / 1000)}s`);
+            console.log(`    Mark Price: $${market.markPrice.toFixed(2)}`);
+            console.log(`    Volatility: ${market.volatilityBp !== null ? `${market.volatilityBp.toFixed(2)} bp/min` : 'warming up'}`);
+            console.log(`    Distance: ${market.targetDistancesBp.map(d => `${d} bp`).join(', ')}`);
+            const held = market.positionSince !== null ? ` (held ${Math.floor((Date.now() - market.positionSince) / 1000)}s)` : '';
+            console.log(`    Position: ${market.position.toFixed(4)}${held}`);
+            if (market.unwindOrder && market.unwindOrder.status === 'OPEN') {
+              console.log(`    Unwind: ${market.unwindOrder.side.toUpperCase()} ${market.unwindOrder.qty} @ $${market.unwindOrder.price.toFixed(2)}`);
+            }
+            console.log(`    Buy Orders: ${formatLadder(market.buyOrders)}`);
+            console.log(`    Sell Orders: ${formatLadder(market.sellOrders)}`);
+          }
+          console.log(`  Placed: ${state.stats.ordersPlaced} | Canceled: ${state.stats.ordersCanceled} | Filled: ${state.stats.ordersFilled} | Partial: ${state.stats.partialFills} | Adopted: ${state.stats.ordersAdopted}`);
+          console.log(`  Position Queries: ${state.stats.positionQueries} REST | ${state.stats.positionQueriesSaved} saved by WS tracking`);
+          if (state.circuitBreaker.level !== 'normal') {
+            const breaker = state.circuitBreaker;
+            console.log(`  Circuit Breaker: ${breaker.level.toUpperCase()} (${breaker.fillsInWindow} fills, $${breaker.lossInWindowUsd.toFixed(2)} loss)${breaker.haltReason ? ` - ${breaker.haltReason}` : ''}`);
+          }
+          if (!state.schedule.active) {
+            const resumes = state.schedule.nextChange ? `, resumes ${new Date(state.schedule.nextChange).toISOString()}` : '';
+            console.log(`  Schedule: PAUSED - ${state.schedule.reason}${resumes}`);
+          }
+          console.log(`  Est. Points: ${state.points.total.toFixed(2)} (Buy: ${state.points.bySide.buy.toFixed(2)} | Sell: ${state.points.bySide.sell.toFixed(2)})`);
           console.log('');
         } else {
           console.log(`${name}: NOT RUNNING`);
           console.log('');
         }
       }
+      // Shared by all accounts
+      const limits = rateLimiter.getStats();
+      console.log(`Rate Limits: ${(Object.keys(limits) as EndpointClass[]).map(endpoint => {
+        const s = limits[endpoint];
+        return `${endpoint} ${s.requests} req, ${s.throttled} throttled, ${s.rateLimited}×429${s.queued > 0 ? `, ${s.queued} queued` : ''}`;
+      }).join(' | ')}`);
       console.log('═'.repeat(60));
       console.log('');
     }, 30000);
+
+    // Telegram status with points estimate
+    const intervalMin = this.config.telegram.statusIntervalMin;
+    if (telegram.isEnabled() && intervalMin > 0) {
+      setInterval(async () => {
+        for (const [name, bot] of this.bots) {
+          const state = bot.getState();
+          await telegram.status(name, bot.isRunning(), bot.getUptime(), state.stats, state.points, state.circuitBreaker, state.schedule);
+        }
+      }, intervalMin * 60000);
+    }
   }
 
   /**
@@ -163,6 +296,87 @@ class BotManager {
     console.log('✅ All bots stopped');
   }
 
+  /**
+   * Reload trading parameters on SIGHUP or when the env file changes
+   */
+  watchConfig(): void {
+    const envFile = getEnvFile();
+    process.on('SIGHUP', () => this.reloadConfig('SIGHUP'));
+
+    if (fs.existsSync(envFile)) {
+      fs.watchFile(envFile, { interval: 2000 }, (current, previous) => {
+        if (current.mtimeMs !== previous.mtimeMs) {
+          this.reloadConfig(`${envFile} changed`);
+        }
+      });
+    }
+    console.log(`⚙️  Hot reload: watching ${envFile} (or send SIGHUP)`);
+  }
+
+  /**
+   * Validate the new config and apply trading changes to all running bots
+   */
+  private async reloadConfig(trigger: string): Promise<void> {
+    // The running reload may have read the file before this change: reload again once it is done
+    if (this.isReloading) {
+      this.pendingReload = trigger;
+      return;
+    }
+
+    this.isReloading = true;
+    try {
+      log.info(`⚙️ Reloading config (${trigger})...`);
+
+      let next;
+      try {
+        next = reloadConfig();
+      } catch (error: any) {
+        log.error(`❌ Config reload rejected: ${error.message}`);
+        await telegram.error(`Config reload rejected (${trigger}): ${error.message}`);
+        return;
+      }
+
+      const changes = diffConfig(this.config, next);
+      this.config = next;
+      if (changes.length === 0) {
+        log.info('⚙️ Config reloaded: no changes');
+        return;
+      }
+
+      // Values of restart-only settings may include credentials, so only their names are reported
+      const restartOnly = changes.filter(change => change.restartOnly).map(change => change.path);
+      if (restartOnly.length > 0) {
+        log.warn(`⚙️ Changes that need a restart (not applied): ${restartOnly.join(', ')}`);
+      }
+
+      const lines: string[] = [];
+      for (const [name, bot] of this.bots) {
+        try {
+          const applied = await bot.applyConfig(next.accounts.find(account => account.name === name));
+          if (applied.length > 0) {
+            lines.push(`${name}: ${applied.map(change => `${change.path.replace('trading.', '')} ${change.from} → ${change.to}`).join(', ')}`);
+          }
+        } catch (error: any) {
+          log.error(`❌ [${name}] Config change rejected: ${error.message}`);
+          await telegram.error(`[${name}] Config change rejected: ${error.message}`);
+        }
+      }
+
+      if (lines.length > 0) {
+        log.info(`⚙️ Config applied:\n  ${lines.join('\n  ')}`);
+      }
+      const restartNote = restartOnly.length > 0 ? `\nNeeds restart: ${restartOnly.join(', ')}` : '';
+      await telegram.info(`⚙️ Config reloaded (${trigger})\n${lines.length > 0 ? lines.join('\n') : 'No trading changes'}${restartNote}`);
+    } finally {
+      this.isReloading = false;
+      const pending = this.pendingReload;
+      if (pending) {
+        this.pendingReload = null;
+        await this.reloadConfig(pending);
+      }
+    }
+  }
+
   /**
    * Get all bots
    */
@@ -189,6 +403,7 @@ async function main() {
 
   try {
     await botManager.startAll();
+    botManager.watchConfig();
 
     // Keep process running
     console.log('Bot is running. Press Ctrl+C to stop.');
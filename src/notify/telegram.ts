@@ -1,6 +1,7 @@
 import TelegramBot from 'node-telegram-bot-api';
-import { getConfig } from '../config';
+import { getConfig, getMarketConfigs } from '../config';
 import { log } from '../utils/logger';
+import { BotStats, CircuitBreakerState, PointsStats, ScheduleStatus, TradingConfig } from '../types';
 
 /**
  * Telegram Notification Service
@@ -50,13 +51,14 @@ export class TelegramNotifier {
   /**
    * Send trade notification
    */
-  async trade(side: string, qty: string, price: string, pnl?: string): Promise<void> {
+  async trade(symbol: string, side: string, qty: string, price: string, pnl?: string): Promise<void> {
     const pnlText = pnl ? `\nP&L: ${pnl}` : '';
     const message = `
 <b>🤖 StandX Maker Bot</b>
 ⚠️ Order Filled
+Symbol: ${symbol}
 Side: ${side.toUpperCase()}
-Qty: ${qty} BTC
+Qty: ${qty} ${symbol.split('-')[0]}
 Price: $${price}${pnlText}
     `.trim();
 
@@ -66,16 +68,34 @@ Price: $${price}${pnlText}
   /**
    * Send bot status
    */
-  async status(isRunning: boolean, uptime: string, stats: any): Promise<void> {
+  async status(
+    account: string,
+    isRunning: boolean,
+    uptime: string,
+    stats: BotStats,
+    points: PointsStats,
+    breaker: CircuitBreakerState,
+    schedule: ScheduleStatus
+  ): Promise<void> {
     const statusEmoji = isRunning ? '✅' : '⏸️';
+    const hour = new Date().toISOString().slice(0, 13);
+    const thisHour = points.byHour[hour] ?? { buy: 0, sell: 0 };
     const message = `
 <b>🤖 StandX Maker Bot Status</b>
+Account: ${account}
 
 ${statusEmoji} Status: ${isRunning ? 'RUNNING' : 'STOPPED'}
 ⏱️ Uptime: ${uptime}
 📊 Orders Placed: ${stats.ordersPlaced}
 📊 Orders Canceled: ${stats.ordersCanceled}
 📊 Orders Filled: ${stats.ordersFilled}
+📊 Partial Fills: ${stats.partialFills}
+🔌 Position Queries: ${stats.positionQueries} REST / ${stats.positionQueriesSaved} saved
+⚡ Circuit Breaker: ${breaker.level.toUpperCase()} (${breaker.fillsInWindow} fills in window)
+🗓️ Schedule: ${schedule.active ? 'ACTIVE' : `PAUSED - ${schedule.reason}`}
+⭐ Est. Points: ${points.total.toFixed(2)} (Buy ${points.bySide.buy.toFixed(2)} / Sell ${points.bySide.sell.toFixed(2)})
+⭐ This Hour: ${(thisHour.buy + thisHour.sell).toFixed(2)}
+⏱️ In Band: Buy ${formatDuration(points.timeInBandSec.buy)} / Sell ${formatDuration(points.timeInBandSec.sell)}
     `.trim();
 
     await this.send(message, { parse_mode: 'HTML' });
@@ -84,15 +104,18 @@ ${statusEmoji} Status: ${isRunning ? 'RUNNING' : 'STOPPED'}
   /**
    * Send startup notification
    */
-  async startup(): Promise<void> {
-    const config = getConfig();
+  async startup(account: string, trading: TradingConfig): Promise<void> {
+    const ladder = trading.levels.length > 0
+      ? `\nLadder: ${trading.levels.map(l => `${l.distanceBp}bp x ${l.sizeBtc}`).join(', ')}`
+      : '';
     const message = `
 <b>🚀 StandX Maker Bot Started</b>
+Account: ${account}
 
-Symbol: ${config.trading.symbol}
-Mode: ${config.trading.mode}
-Order Size: ${config.trading.orderSizeBtc} BTC
-Distance: ${config.trading.orderDistanceBp} bp
+Symbols: ${getMarketConfigs(trading).map(m => m.symbol).join(', ')}
+Mode: ${trading.mode}
+Order Size: ${trading.orderSizeBtc} BTC
+Distance: ${trading.orderDistanceBp} bp (${trading.minDistanceBp}-${trading.maxDistanceBp} bp)${ladder}
     `.trim();
 
     await this.send(message, { parse_mode: 'HTML' });
@@ -129,5 +152,14 @@ Distance: ${config.trading.orderDistanceBp} bp
   }
 }
 
+/**
+ * Format order-seconds as e.g. 3h 12m
+ */
+function formatDuration(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  return `${hours}h ${minutes}m`;
+}
+
 // Export singleton instance
 export const telegram = new TelegramNotifier();
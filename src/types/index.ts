@@ -1,4 +1,5 @@
 import Decimal from 'decimal.js';
+import type { StandXApiError } from '../api/errors';
 
 // ==================== 订单相关 ====================
 
@@ -25,6 +26,7 @@ export interface OrderResult {
   side?: OrderSide;
   status?: OrderStatus;
   errorMessage?: string;
+  error?: StandXApiError;  // Typed cause, when the failure came from the API layer
 }
 
 // ==================== WebSocket消息 ====================
@@ -74,51 +76,385 @@ export interface BotStats {
   ordersPlaced: number;
   ordersCanceled: number;
   ordersFilled: number;
+  partialFills: number;
+  ordersAdopted: number;         // Open orders kept across restarts/reconnects instead of replaced
+  positionQueries: number;       // REST position queries made
+  positionQueriesSaved: number;  // Check-loop ticks served from the WS-tracked position instead
   startTime: number;
   lastTradeTime?: number;
 }
 
-export interface BotState {
-  isRunning: boolean;
+/**
+ * Startup check of one account: key → address derivation and a test sign-in
+ */
+export interface PreflightResult {
+  account: string;
+  chain: string;
+  configuredAddress: string;
+  derivedAddress: string | null;  // null if the key couldn't be parsed
+  addressMatches: boolean;
+  loggedIn: boolean;
+  error?: string;
+}
+
+export interface PointsBucket {
+  buy: number;
+  sell: number;
+}
+
+/**
+ * Estimated maker points for one account
+ * Score = notional (USD) × tier weight × hours resting inside the scoring band
+ */
+export interface PointsStats {
+  total: number;
+  bySide: PointsBucket;
+  byHour: Record<string, PointsBucket>;  // Keyed by UTC hour, e.g. 2026-01-31T14
+  timeInBandSec: PointsBucket;           // Order-seconds spent inside the scoring band
+}
+
+/**
+ * Per-market lifecycle phase (see src/bot/lifecycle.ts for allowed transitions)
+ * STARTING/STOPPING/STOPPED/HALTED are entered by all markets of an account together
+ */
+export type LifecyclePhase =
+  | 'STOPPED'
+  | 'STARTING'
+  | 'QUOTING'
+  | 'PAUSED_VOLATILITY'  // Strategy paused quoting (e.g. high last-mark gap)
+  | 'PAUSED_SCHEDULE'    // Outside trading windows or inside a blackout
+  | 'UNWINDING'          // Handling a fill / closing a position
+  | 'COOLDOWN'           // Waiting after a fill before requoting
+  | 'STOPPING'
+  | 'HALTED';            // Circuit breaker halt, until restart
+
+export interface PhaseTransition {
+  symbol: string;
+  from: LifecyclePhase;
+  to: LifecyclePhase;
+  reason: string;
+}
+
+export interface MarketState {
+  symbol: string;
+  phase: LifecyclePhase;
+  phaseSince: number;
   markPrice: Decimal;
   position: Decimal;
-  buyOrder: OrderInfo | null;
-  sellOrder: OrderInfo | null;
+  buyOrders: (OrderInfo | null)[];   // One slot per ladder level
+  sellOrders: (OrderInfo | null)[];  // One slot per ladder level
+  volatilityBp: number | null;       // 1-minute realized volatility, null while warming up
+  targetDistancesBp: number[];       // Current target distance per ladder level
+  unwindOrder: OrderInfo | null;     // Reduce-only limit working off inventory
+  positionSince: number | null;      // When the current non-zero position was opened
+}
+
+export interface BotState {
+  isRunning: boolean;
+  markets: Record<string, MarketState>;  // Keyed by symbol
   stats: BotStats;
+  points: PointsStats;
+  circuitBreaker: CircuitBreakerState;
+  schedule: ScheduleStatus;
+}
+
+export interface ScheduleStatus {
+  active: boolean;      // false = outside the trading windows or inside a blackout
+  reason?: string;      // Why quoting is paused
+  nextChange?: number;  // When active flips next (if within a week)
+}
+
+/**
+ * Bot state saved to disk and reloaded on start (see src/bot/state-store.ts)
+ */
+export interface PersistedMarketState {
+  buyOrderIds: (string | null)[];  // Client order ID per ladder level
+  sellOrderIds: (string | null)[];
+  unwindOrderId: string | null;
+  position: string;                // Last known position (Decimal as string)
+  positionSince: number | null;
+  cooldownUntil: number | null;    // End of a post-fill cooldown still running at save time
+}
+
+export interface PersistedBotState {
+  version: number;
+  savedAt: number;
+  stats: BotStats;
+  points: PointsStats;
+  breakerFills: BreakerFill[];
+  breakerHalted: boolean;           // Halt latch, kept until reset with scripts/reset-breaker.ts
+  breakerHaltReason?: string;
+  markets: Record<string, PersistedMarketState>;  // Keyed by symbol
+}
+
+export interface BreakerFill {
+  time: number;
+  side: OrderSide;
+  lossUsd: number;
+}
+
+export type CircuitBreakerLevel = 'normal' | 'widened' | 'one_sided' | 'halted';
+
+export interface CircuitBreakerState {
+  level: CircuitBreakerLevel;
+  fillsInWindow: number;
+  lossInWindowUsd: number;          // Estimated realized loss of closes in the window
+  cooldownSec: number;              // Wait after the next fill before requoting
+  extraDistanceBp: number;          // Added to every target distance while widened
+  blockedSides: OrderSide[];        // Sides not quoted while one-sided
+  haltReason?: string;
 }
 
 export type TradingMode = 'both' | 'buy' | 'sell';
+export type PartialFillPolicy = 'cancel' | 'keep';  // What to do with the unfilled remainder
+export type ClosePolicy = 'aggressive' | 'passive';   // Market close vs reduce-only limit first
+
+// ==================== 报价策略 ====================
+
+/**
+ * Market snapshot handed to a quoting strategy on every check
+ */
+export interface MarketSnapshot {
+  symbol: string;
+  config: MarketConfig;
+  levels: QuoteLevel[];
+  markPrice: Decimal;
+  lastPrice: Decimal | null;
+  bid: Decimal | null;
+  ask: Decimal | null;
+  position: Decimal;
+  buyOrders: (OrderInfo | null)[];
+  sellOrders: (OrderInfo | null)[];
+  unwindOrder: OrderInfo | null;
+  targetDistancesBp: number[];  // Per level; equals level.distanceBp unless adaptive distance is on
+  paused: boolean;  // Whether the previous decision paused quoting
+}
+
+export interface DesiredQuote {
+  side: OrderSide;
+  level: number;           // Ladder slot index
+  distanceBp: number;      // Target distance from mark when (re)placing
+  size: Decimal;
+  replaceReason?: string;  // Set when the live order in this slot must be replaced
+}
+
+export interface UnwindQuote {
+  side: OrderSide;
+  distanceBp: number;  // Distance from mark on the passive side
+  size: Decimal;
+  replaceReason?: string;  // Set when the live unwind order must be canceled and replaced
+}
+
+export interface QuoteDecision {
+  quotes: DesiredQuote[];  // Slots without a desired quote are canceled
+  unwind?: UnwindQuote;    // Reduce-only order working off inventory; absent = cancel it
+  pauseReason?: string;    // Set to cancel everything and stop quoting
+}
+
+export interface QuotingStrategy {
+  readonly name: string;
+  quote(snapshot: MarketSnapshot): QuoteDecision;
+}
 
 // ==================== 配置 ====================
 
 export interface AccountConfig {
   name: string;
-  privateKey: string;
+  privateKey: string;                // Empty when the key comes from a keystore
   address: string;
   chain: 'bsc' | 'solana';
+  keystore?: string;                 // Encrypted JSON keystore file, decrypted in memory at start
+  keystorePassphrase?: string;       // prompt (default), env:NAME or fd:N
+  signer?: string;                   // External signing daemon (http(s)://host:port or unix:/path); no key on this host
+  trading?: AccountTradingOverride;  // Applied on top of the global trading config
 }
 
-export interface StandXConfig {
-  privateKey: string;
-  address: string;
-  chain: string;
+/**
+ * Per-account trading settings; anything not set falls back to TRADING_* (and TRADING_SYMBOL_OVERRIDES)
+ */
+export interface AccountTradingOverride {
+  symbols?: string[];
+  mode?: TradingMode;
+  orderSizeBtc?: number;
+  orderDistanceBp?: number;
+  minDistanceBp?: number;
+  maxDistanceBp?: number;
+  levels?: QuoteLevelConfig[];  // Own ladder; without it, orderDistanceBp/orderSizeBtc mean a single level
+  closePolicy?: ClosePolicy;
+}
+
+export interface QuoteLevelConfig {
+  distanceBp: number;
+  sizeBtc: number;
+  minDistanceBp?: number;  // Defaults to trading.minDistanceBp
+  maxDistanceBp?: number;  // Defaults to trading.maxDistanceBp
+}
+
+export interface QuoteLevel {
+  index: number;
+  distanceBp: number;
+  sizeBtc: number;
+  minDistanceBp: number;
+  maxDistanceBp: number;
+}
+
+export interface AdaptiveDistanceConfig {
+  enabled: boolean;
+  volWindowSec: number;        // Rolling window for realized volatility
+  volReferenceBp: number;      // 1-minute volatility at which configured distances apply unchanged
+  fillWidenBp: number;         // Extra distance right after a fill
+  fillWidenDecaySec: number;   // Time for the fill widening to decay to zero
+  repriceToleranceBp: number;  // Replace orders drifting further than this from the target
+}
+
+export interface InventoryConfig {
+  enabled: boolean;          // false = close every fill immediately with a market order
+  maxPosition: number;       // Absolute position (base asset) that forces a market close
+  maxAgeSec: number;         // Position age that forces a market close
+  skewBp: number;            // Extra distance on the growing side at full inventory
+  unwindDistanceBp: number;  // Distance of the reduce-only unwind order from mark
+}
+
+export interface PassiveCloseConfig {
+  repriceSec: number;    // How long each reduce-only limit rests before it is repriced
+  maxReprices: number;   // Limit orders posted before escalating to market
+  timeoutSec: number;    // Total time before escalating to market
+  maxAdverseBp: number;  // Escalate when the touch moves this far against the position
+  throughTicks: number;  // Ticks inside the same-side best price (0 = join the touch)
 }
 
-export interface TradingConfig {
+/**
+ * Effective trading settings for one symbol
+ */
+export interface MarketConfig {
   symbol: string;
   mode: TradingMode;
   orderSizeBtc: number;
   orderDistanceBp: number;
   minDistanceBp: number;
   maxDistanceBp: number;
+  levels: QuoteLevelConfig[];
+  strategy: string;  // Name of a registered QuotingStrategy
+  partialFillPolicy: PartialFillPolicy;
+  closePolicy: ClosePolicy;
+  passiveClose: PassiveCloseConfig;
+  adaptiveDistance: AdaptiveDistanceConfig;
+  inventory: InventoryConfig;
+}
+
+export type MarketOverride = Partial<Omit<MarketConfig, 'symbol' | 'adaptiveDistance' | 'inventory' | 'passiveClose'>> & {
+  adaptiveDistance?: Partial<AdaptiveDistanceConfig>;
+  inventory?: Partial<InventoryConfig>;
+  passiveClose?: Partial<PassiveCloseConfig>;
+};
+
+export interface CircuitBreakerConfig {
+  enabled: boolean;
+  windowSec: number;           // Sliding window for fills and losses
+  cooldownSec: number;         // Wait after a fill before requoting (first fill in the window)
+  cooldownMultiplier: number;  // Cooldown grows by this factor per additional fill in the window
+  maxCooldownSec: number;
+  widenFills: number;          // Fills in the window that widen all distances (0 = off)
+  widenBp: number;
+  oneSidedFills: number;       // Fills in the window that stop quoting the side being hit (0 = off)
+  haltFills: number;           // Fills in the window that halt the account (0 = off)
+  haltLossUsd: number;         // Realized loss in the window that halts the account (0 = off)
+}
+
+export interface ScheduleConfig {
+  activeHours: string;        // UTC windows, e.g. "08:00-16:00,20:00-02:00"; empty = always
+  blackoutFile: string;       // JSON calendar of events; empty = none
+  blackoutBeforeMin: number;  // Default pause before each event
+  blackoutAfterMin: number;   // Default pause after each event
+}
+
+export interface BlackoutEvent {
+  name: string;
+  start: number;
+  end: number;
+}
+
+export interface TradingConfig extends MarketConfig {
+  symbols: string[];                                // Empty = [symbol]
+  symbolOverrides: Record<string, MarketOverride>;  // Per-symbol settings on top of the defaults above
+  circuitBreaker: CircuitBreakerConfig;             // Account-wide, counts fills across all symbols
+  schedule: ScheduleConfig;                         // Account-wide trading windows and blackouts
+  positionReconcileSec: number;                     // REST position check interval; WS updates in between
 }
 
 export interface TelegramConfig {
   token: string;
   chatId: string;
   enabled: boolean;
+  statusIntervalMin: number;  // 0 = no periodic status message
+}
+
+export interface PointsTier {
+  maxDistanceBp: number;  // Orders up to this distance from mark score with this weight
+  weight: number;
+}
+
+export interface PointsConfig {
+  tiers: PointsTier[];
+}
+
+export interface StoreConfig {
+  enabled: boolean;
+  dir: string;              // One JSON file per account
+  saveIntervalSec: number;
+}
+
+export type ApiProfile = 'mainnet' | 'testnet' | 'local';
+
+export interface ApiEndpoints {
+  authUrl: string;          // Wallet sign-in
+  restUrl: string;          // Perps REST API
+  marketStreamUrl: string;  // Public market data WebSocket
+  orderStreamUrl: string;   // Authenticated order WebSocket (ws-api)
 }
 
+export type OrderTransport = 'rest' | 'websocket';
+
+export interface ApiConfig {
+  profile: ApiProfile;
+  endpoints: ApiEndpoints;  // Overrides on top of the profile ('' = profile default)
+  timeoutMs: number;    // Per request
+  retries: number;      // Extra attempts for idempotent calls (queries, cancels) on retryable errors
+  retryBaseMs: number;  // Backoff before the first retry, doubled per attempt (full jitter)
+  retryMaxMs: number;
+  orderTransport: OrderTransport;  // Default for new orders and cancels; websocket falls back to REST
+  wsOrderTimeoutMs: number;        // Wait for an order stream response before falling back
+  tokenTtlSec: number;             // Access token lifetime requested at login
+  tokenRefreshMarginSec: number;   // Sign in again this long before the token expires
+  signerTimeoutMs: number;         // Wait for an external signer's answer
+}
+
+export type EndpointClass = 'public' | 'order' | 'query';
+export type RequestPriority = 'urgent' | 'normal' | 'low';
+
+export interface RateLimitBucketConfig {
+  perSec: number;   // Sustained requests per second
+  burst: number;    // Bucket size
+}
+
+export interface RateLimitConfig {
+  public: RateLimitBucketConfig;  // Market data
+  order: RateLimitBucketConfig;   // Order entry and cancels
+  query: RateLimitBucketConfig;   // Private queries (orders, positions)
+  backoffSec: number;             // First pause after a 429, doubled on repeats
+  maxBackoffSec: number;
+}
+
+export interface EndpointStats {
+  requests: number;
+  throttled: number;    // Requests that had to wait for a token
+  rateLimited: number;  // 429 responses
+  waitMs: number;       // Total time spent waiting
+  queued: number;
+}
+
+export type RateLimiterStats = Record<EndpointClass, EndpointStats>;
+
 export interface LoggingConfig {
   level: 'debug' | 'info' | 'warn' | 'error';
   toFile: boolean;
@@ -127,8 +463,11 @@ export interface LoggingConfig {
 
 export interface Config {
   accounts: AccountConfig[];
-  standx: StandXConfig;
   trading: TradingConfig;
   telegram: TelegramConfig;
+  points: PointsConfig;
+  store: StoreConfig;
+  api: ApiConfig;
+  rateLimit: RateLimitConfig;
   logging: LoggingConfig;
 }